@@ -1,3 +1,8 @@
+import type { Indefinite } from './indefinite';
+import type { MultiDimensionalArray } from './multi-dimensional-array';
+import type { Simple } from './simple';
+import type { Tagged } from './tagged';
+
 export type CborValue<T = any> = ReplacedCborValue<T> | T;
 
 export type ReplacedCborValue<T = any> =
@@ -5,9 +10,35 @@ export type ReplacedCborValue<T = any> =
   | string
   | ArrayBuffer
   | Uint8Array
+  | TypedArray
   | CborValue<T>[]
   | CborMap<T>
-  | CborSimple;
+  | Map<CborValue<T>, CborValue<T>>
+  | Set<CborValue<T>>
+  | CborSimple
+  | Simple
+  | Date
+  | Tagged
+  | Indefinite
+  | MultiDimensionalArray;
+
+/**
+ * The typed arrays that are encoded natively, with the typed array tags of RFC 8746.
+ * `Uint8Array` values are encoded as byte strings.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8746.html}
+ */
+export type TypedArray =
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int8Array
+  | Uint16Array
+  | Int16Array
+  | Uint32Array
+  | Int32Array
+  | BigUint64Array
+  | BigInt64Array
+  | Float32Array
+  | Float64Array;
 
 /**
  * The tag number `55799`, the self-described tag for CBOR.
@@ -16,11 +47,56 @@ export type ReplacedCborValue<T = any> =
  */
 export const CBOR_SELF_DESCRIBED_TAG = 55799;
 
-export type CborNumber = number | bigint;
+/**
+ * The tag numbers that are encoded and decoded natively.
+ * @see {@link https://www.iana.org/assignments/cbor-tags/cbor-tags.xhtml}
+ */
+export enum CborTag {
+  /**
+   * An RFC 3339 date-time string.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc8949.html#section-3.4.1}
+   */
+  DateTimeString = 0,
+  /**
+   * A number of seconds since the epoch, as an integer or a float.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc8949.html#section-3.4.2}
+   */
+  EpochDateTime = 1,
+  /**
+   * A positive bignum: an unsigned integer encoded as a big-endian byte string.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc8949.html#section-3.4.3}
+   */
+  PositiveBignum = 2,
+  /**
+   * A negative bignum: the big-endian byte string of `-1 - n` for a negative integer `n`.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc8949.html#section-3.4.3}
+   */
+  NegativeBignum = 3,
+  /**
+   * A multi-dimensional array in row-major order: an array of dimensions, followed by the array of elements.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc8746.html#section-3.1.1}
+   */
+  MultiDimensionalArray = 40,
+  /**
+   * A finite set: an array of elements without duplicates.
+   * @see {@link https://github.com/input-output-hk/cbor-sets-spec/blob/master/CBOR_SETS.md}
+   */
+  Set = 258,
+  /**
+   * A number of days since the epoch.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc8943.html#section-2}
+   */
+  EpochDate = 100,
+  /**
+   * An RFC 3339 full-date string.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc8943.html#section-2}
+   */
+  FullDateString = 1004,
+}
 
-export const CBOR_STOP_CODE = Symbol('CBOR_STOP_CODE');
+export type CborNumber = number | bigint;
 
-export type CborSimple = boolean | null | undefined | typeof CBOR_STOP_CODE;
+export type CborSimple = boolean | null | undefined;
 
 export enum CborSimpleType {
   False = 0x14,
@@ -72,3 +148,12 @@ export enum CborMinorType {
   EightBytes = 27,
   Indefinite = 31,
 }
+
+/**
+ * The order of map keys in deterministic encoding, by their encoded bytes.
+ * - `bytewise`: bytewise lexicographic order, as specified by RFC 8949.
+ * - `length-first`: shorter keys first, then bytewise lexicographic order, as specified by RFC 7049 ("canonical CBOR").
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8949.html#section-4.2.1}
+ * @see {@link https://www.rfc-editor.org/rfc/rfc7049.html#section-3.9}
+ */
+export type MapKeyOrder = 'bytewise' | 'length-first';
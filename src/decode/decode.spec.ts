@@ -1,6 +1,23 @@
 import { it, describe, expect } from 'vitest';
-import { decode, Reviver } from './decode';
+import { decode, decodeFirst, decodeSequence } from './decode';
+import { ByteStrings, DecodeOptions, Decoder, Reviver } from './decoder';
+import { createDecoderStream, decodeStream } from './decoder-stream';
+import { toDiagnostic, valueToDiagnostic } from './diagnostic';
+import {
+  DecodingError,
+  InvalidMapKeyError,
+  InvalidUtf8Error,
+  LimitExceededError,
+  UnexpectedEndError,
+  UnsupportedTagError,
+} from './decoding-error';
+import { CborMajorType } from '../cbor-value';
 import { CborValue } from '../cbor-value';
+import { TagHandler, Tagged } from '../tagged';
+import { MultiDimensionalArray } from '../multi-dimensional-array';
+import { Simple } from '../simple';
+import { encode } from '../encode/encode';
+import { DecodeLimits } from '../util';
 
 function hexArrayToBytes(hexArray: string[]): Uint8Array {
   return new Uint8Array(hexArray.map(byte => parseInt(byte, 16)));
@@ -20,6 +37,11 @@ describe('decode', () => {
     { bytes: 'F5', expected: true }, // true
     { bytes: 'F6', expected: null }, // null
     { bytes: 'F7', expected: undefined }, // undefined
+    { bytes: 'E0', expected: new Simple(0) }, // simple(0)
+    { bytes: 'F3', expected: new Simple(19) }, // simple(19)
+    { bytes: 'F820', expected: new Simple(32) }, // simple(32)
+    { bytes: 'F8FF', expected: new Simple(255) }, // simple(255)
+    { bytes: '82F0F5', expected: [new Simple(16), true] }, // [simple(16), true]
 
     // ###### ARRAYS ######
 
@@ -200,6 +222,18 @@ describe('decode', () => {
       expected: new Array(16_777_216).fill('a').join(''),
     },
 
+    { bytes: '7FFF', expected: '' }, // indefinite length empty string
+    { bytes: '7F6060FF', expected: '' }, // indefinite length string of empty chunks
+    { bytes: '7F657374726561646D696E67FF', expected: 'streaming' }, // indefinite length string of two chunks
+    { bytes: '7F62C3BC64F0908591FF', expected: '\u00fc\ud800\udd51' }, // indefinite length string of unicode chunks
+    {
+      // indefinite length string with a one byte length chunk
+      bytes: `7F7818${new Array(24).fill('61').join('')}6162FF`,
+      expected: `${new Array(24).fill('a').join('')}b`,
+    },
+    { bytes: '827F6161FF7F6162FF', expected: ['a', 'b'] }, // array of indefinite length strings
+    { bytes: 'BF7F6161FF01FF', expected: { a: 1 } }, // map with an indefinite length key
+
     // ###### BYTES ######
 
     { bytes: '43010203', expected: new Uint8Array([1, 2, 3]) },
@@ -208,6 +242,47 @@ describe('decode', () => {
     { bytes: 'D9D9F743000000', expected: new Uint8Array([0, 0, 0]) },
     { bytes: '40', expected: new Uint8Array() },
     { bytes: 'D9D9F740', expected: new Uint8Array() },
+    { bytes: '5FFF', expected: new Uint8Array() }, // indefinite length empty bytes
+    { bytes: '5F4040FF', expected: new Uint8Array() }, // indefinite length bytes of empty chunks
+    {
+      // indefinite length bytes of two chunks
+      bytes: '5F42010243030405FF',
+      expected: new Uint8Array([1, 2, 3, 4, 5]),
+    },
+    {
+      // indefinite length bytes of one chunk
+      bytes: '5F43010203FF',
+      expected: new Uint8Array([1, 2, 3]),
+    },
+
+    // ###### FLOATS ######
+
+    { bytes: 'F90000', expected: 0 }, // half precision zero
+    { bytes: 'F98000', expected: -0 }, // half precision negative zero
+    { bytes: 'F93C00', expected: 1 }, // half precision one
+    { bytes: 'F93E00', expected: 1.5 }, // half precision
+    { bytes: 'F97BFF', expected: 65_504 }, // largest half precision
+    { bytes: 'F90001', expected: 5.960464477539063e-8 }, // smallest half precision subnormal
+    { bytes: 'F90400', expected: 0.00006103515625 }, // smallest half precision normal
+    { bytes: 'F9C400', expected: -4 }, // negative half precision
+    { bytes: 'F97C00', expected: Infinity }, // half precision infinity
+    { bytes: 'F9FC00', expected: -Infinity }, // half precision negative infinity
+    { bytes: 'F97E00', expected: NaN }, // half precision NaN
+    { bytes: 'FA47C35000', expected: 100_000 }, // single precision
+    { bytes: 'FA7F7FFFFF', expected: 3.4028234663852886e38 }, // largest single precision
+    { bytes: 'FA7F800000', expected: Infinity }, // single precision infinity
+    { bytes: 'FAFF800000', expected: -Infinity }, // single precision negative infinity
+    { bytes: 'FA7FC00000', expected: NaN }, // single precision NaN
+    { bytes: 'FB3FF199999999999A', expected: 1.1 }, // double precision
+    { bytes: 'FB7E37E43C8800759C', expected: 1.0e300 }, // large double precision
+    { bytes: 'FBC010666666666666', expected: -4.1 }, // negative double precision
+    { bytes: 'FB7FF0000000000000', expected: Infinity }, // double precision infinity
+    { bytes: 'FBFFF0000000000000', expected: -Infinity }, // double precision negative infinity
+    { bytes: 'FB7FF8000000000000', expected: NaN }, // double precision NaN
+    {
+      bytes: '83F93E00FA47C35000FB3FF199999999999A',
+      expected: [1.5, 100_000, 1.1],
+    }, // array of floats
 
     // ###### POSITIVE INTEGERS ######
 
@@ -262,6 +337,20 @@ describe('decode', () => {
     { bytes: '3B00FFFFFFFFFFFFFF', expected: -72_057_594_037_927_936n }, // largest values in seven bytes
     { bytes: '3B0100000000000000', expected: -72_057_594_037_927_937n }, // smallest values in eight bytes
     { bytes: '3BFFFFFFFFFFFFFFFF', expected: -18_446_744_073_709_551_616n }, // largest values in eight bytes
+
+    // ###### BIGNUMS ######
+
+    { bytes: 'C249010000000000000000', expected: 18_446_744_073_709_551_616n }, // smallest positive bignum
+    { bytes: 'C349010000000000000000', expected: -18_446_744_073_709_551_617n }, // largest negative bignum
+    {
+      bytes: 'C250FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF',
+      expected: 340_282_366_920_938_463_463_374_607_431_768_211_455n,
+    }, // largest 128-bit unsigned integer
+    { bytes: 'C24101', expected: 1n }, // bignum that fits in an integer
+    { bytes: 'C34100', expected: -1n }, // negative bignum that fits in an integer
+    { bytes: 'C240', expected: 0n }, // empty bignum
+    { bytes: 'C24B00000000000000000000FF', expected: 255n }, // bignum with leading zeros
+    { bytes: 'C25F4101420000FF', expected: 65_536n }, // indefinite length bignum
     {
       // self-described largest values in eight bytes
       bytes: 'D9D9F73BFFFFFFFFFFFFFFFF',
@@ -387,6 +476,661 @@ describe('decode', () => {
     });
   });
 
+  describe('decode with tags', () => {
+    const dateHandler: TagHandler<Date> = {
+      tag: 1,
+      decode: value => new Date((value as number) * 1_000),
+    };
+
+    it('should throw on unknown tags by default', () => {
+      const bytes = 'C61A514B67B0'; // 6(1363896240)
+
+      expect(() => decode(hexStringToBytes(bytes))).toThrow(
+        'Unsupported tag: 6.',
+      );
+    });
+
+    it('should decode unknown tags into tagged values', () => {
+      const bytes = 'C61A514B67B0'; // 6(1363896240)
+      const result = decode(hexStringToBytes(bytes), undefined, {
+        unknownTags: 'tagged',
+      });
+
+      expect(result).toEqual(new Tagged(6, 1_363_896_240));
+    });
+
+    it('should decode nested unknown tags into tagged values', () => {
+      const bytes = 'A16161D82082D8210102'; // { "a": 32([33(1), 2]) }
+      const result = decode(hexStringToBytes(bytes), undefined, {
+        unknownTags: 'tagged',
+      });
+
+      expect(result).toEqual({ a: new Tagged(32, [new Tagged(33, 1), 2]) });
+    });
+
+    it('should normalize eight byte tag numbers', () => {
+      const bytes = 'DB000000000000002001'; // 32(1) with an eight byte tag number
+      const result = decode(hexStringToBytes(bytes), undefined, {
+        unknownTags: 'tagged',
+      });
+
+      expect(result).toEqual(new Tagged(32, 1));
+    });
+
+    it('should keep tag numbers that are not safe integers as big ints', () => {
+      const bytes = 'DBFFFFFFFFFFFFFFFF01'; // 18446744073709551615(1)
+      const result = decode(hexStringToBytes(bytes), undefined, {
+        unknownTags: 'tagged',
+      });
+
+      expect(result).toEqual(new Tagged(18_446_744_073_709_551_615n, 1));
+    });
+
+    it('should decode tags with a handler', () => {
+      const bytes = '82C11A514B67B0C11A514B67B1'; // [1(1363896240), 1(1363896241)]
+      const result = decode(hexStringToBytes(bytes), undefined, {
+        tags: [dateHandler],
+      });
+
+      expect(result).toEqual([
+        new Date('2013-03-21T20:04:00Z'),
+        new Date('2013-03-21T20:04:01Z'),
+      ]);
+    });
+
+    it('should prefer handlers over the self-described tag', () => {
+      const bytes = 'D9D9F701'; // 55799(1)
+      const result = decode(hexStringToBytes(bytes), undefined, {
+        tags: [{ tag: 55_799, decode: value => [value] }],
+      });
+
+      expect(result).toEqual([1]);
+    });
+
+    it('should ignore handlers without a decode function', () => {
+      const bytes = 'C601'; // 6(1)
+      const result = decode(hexStringToBytes(bytes), undefined, {
+        tags: [{ tag: 6 }],
+        unknownTags: 'tagged',
+      });
+
+      expect(result).toEqual(new Tagged(6, 1));
+    });
+
+    it('should pass decoded tag values to the reviver', () => {
+      const bytes = 'A16161C11A514B67B0'; // { "a": 1(1363896240) }
+      const reviver: Reviver = (value, key) =>
+        key === 'a' && value instanceof Date ? value.toISOString() : value;
+      const result = decode(hexStringToBytes(bytes), reviver, {
+        tags: [dateHandler],
+      });
+
+      expect(result).toEqual({ a: '2013-03-21T20:04:00.000Z' });
+    });
+  });
+
+  describe('decode dates', () => {
+    it.each<{ bytes: string; expected: Date }>([
+      {
+        bytes: 'C074323031332D30332D32315432303A30343A30305A', // 0("2013-03-21T20:04:00Z")
+        expected: new Date('2013-03-21T20:04:00Z'),
+      },
+      {
+        bytes:
+          'C0781D323031332D30332D32315432323A30343A30302E3235302B30323A3030', // 0("2013-03-21T22:04:00.250+02:00")
+        expected: new Date('2013-03-21T20:04:00.250Z'),
+      },
+      {
+        bytes: 'C074323031332D30332D32315432303A30343A30307A', // 0("2013-03-21T20:04:00z")
+        expected: new Date('2013-03-21T20:04:00Z'),
+      },
+      {
+        bytes: 'C11A514B67B0', // 1(1363896240)
+        expected: new Date('2013-03-21T20:04:00Z'),
+      },
+      {
+        bytes: 'C1FB41D452D9EC200000', // 1(1363896240.5)
+        expected: new Date('2013-03-21T20:04:00.500Z'),
+      },
+      {
+        bytes: 'C13A0001517F', // 1(-86400)
+        expected: new Date('1969-12-31T00:00:00Z'),
+      },
+    ])('should decode $bytes into a date', ({ bytes, expected }) => {
+      const result = decode(hexStringToBytes(bytes));
+
+      expect(result).toBeInstanceOf(Date);
+      expect(result).toEqual(expected);
+    });
+
+    it('should decode full dates with the fullDates option', () => {
+      const bytes = '82D864193DA9D903EC6A323031332D30332D3231'; // [100(15785), 1004("2013-03-21")]
+
+      expect(
+        decode(hexStringToBytes(bytes), undefined, { fullDates: true }),
+      ).toEqual([
+        new Date('2013-03-21T00:00:00Z'),
+        new Date('2013-03-21T00:00:00Z'),
+      ]);
+      expect(() => decode(hexStringToBytes(bytes))).toThrow(
+        'Unsupported tag: 100.',
+      );
+    });
+
+    it.each<{ bytes: string; options?: DecodeOptions }>([
+      { bytes: 'C001' }, // 0(1)
+      { bytes: 'C06A323031332D30332D3231' }, // 0("2013-03-21")
+      { bytes: 'C074323031332D30332D32312032303A30343A30305A' }, // 0("2013-03-21 20:04:00Z")
+      { bytes: 'C16161' }, // 1("a")
+      { bytes: 'C1F97E00' }, // 1(NaN)
+      { bytes: 'C1FB7FEFFFFFFFFFFFFF' }, // 1(1.7976931348623157e308)
+      { bytes: 'C1F6' }, // 1(null)
+      { bytes: 'D864F93E00', options: { fullDates: true } }, // 100(1.5)
+      {
+        bytes: 'D903EC6A323031332D30322D3330', // 1004("2013-02-30")
+        options: { fullDates: true },
+      },
+    ])('should throw on invalid date content $bytes', ({ bytes, options }) => {
+      expect(() => decode(hexStringToBytes(bytes), undefined, options)).toThrow(
+        expect.objectContaining({
+          name: 'DecodingError',
+          message: expect.stringContaining('Invalid content for date tag'),
+        }),
+      );
+    });
+
+    it('should prefer handlers over the date tags', () => {
+      const bytes = 'C11A514B67B0'; // 1(1363896240)
+      const result = decode(hexStringToBytes(bytes), undefined, {
+        tags: [{ tag: 1, decode: value => new Tagged(1, value) }],
+      });
+
+      expect(result).toEqual(new Tagged(1, 1_363_896_240));
+    });
+
+    it('should report the path of invalid dates', () => {
+      const bytes = 'A16161C16161'; // { "a": 1("a") }
+
+      expect(() => decode(hexStringToBytes(bytes))).toThrow(
+        expect.objectContaining({ offset: 6, path: '$.a' }),
+      );
+    });
+  });
+
+  describe('decode bignums', () => {
+    it.each<{ bytes: string; expected: CborValue }>([
+      { bytes: 'C24101', expected: 1 }, // 2(h'01')
+      { bytes: 'C34100', expected: -1 }, // 3(h'00')
+      { bytes: 'C244FFFFFFFF', expected: 4_294_967_295 }, // 2(h'FFFFFFFF')
+      { bytes: 'C2450100000000', expected: 4_294_967_296n }, // 2(h'0100000000')
+      {
+        bytes: 'C349010000000000000000',
+        expected: -18_446_744_073_709_551_617n,
+      }, // 3(h'010000000000000000')
+    ])(
+      'should normalize $bytes with the normalizeBignums option',
+      ({ bytes, expected }) => {
+        const result = decode(hexStringToBytes(bytes), undefined, {
+          normalizeBignums: true,
+        });
+
+        expect(result).toEqual(expected);
+      },
+    );
+
+    it.each<ByteStrings>(['copy', 'view', 'arraybuffer'])(
+      'should decode bignums with %s byte strings',
+      byteStrings => {
+        const bytes = 'C249010000000000000000'; // 2(h'010000000000000000')
+
+        expect(
+          decode(hexStringToBytes(bytes), undefined, { byteStrings }),
+        ).toEqual(18_446_744_073_709_551_616n);
+      },
+    );
+
+    it.each(['C201', 'C36161', 'C280'])(
+      'should throw on invalid bignum content %s',
+      bytes => {
+        expect(() => decode(hexStringToBytes(bytes))).toThrow(
+          expect.objectContaining({
+            name: 'DecodingError',
+            message: expect.stringContaining('Invalid content for bignum tag'),
+          }),
+        );
+      },
+    );
+
+    it('should prefer handlers over the bignum tags', () => {
+      const bytes = 'C24101'; // 2(h'01')
+      const result = decode(hexStringToBytes(bytes), undefined, {
+        tags: [{ tag: 2, decode: value => new Tagged(2, value) }],
+      });
+
+      expect(result).toEqual(new Tagged(2, new Uint8Array([1])));
+    });
+  });
+
+  describe('decode typed arrays', () => {
+    it.each<{ bytes: string; expected: CborValue }>([
+      { bytes: 'D840420102', expected: new Uint8Array([1, 2]) }, // 64(h'0102')
+      { bytes: 'D841440001FFFE', expected: new Uint16Array([1, 65_534]) }, // 65(h'0001FFFE')
+      { bytes: 'D8454401000302', expected: new Uint16Array([1, 0x0203]) }, // 69(h'01000302')
+      { bytes: 'D84244FFFFFFFE', expected: new Uint32Array([4_294_967_294]) }, // 66(h'FFFFFFFE')
+      {
+        bytes: 'D843480000000000000001',
+        expected: new BigUint64Array([1n]),
+      }, // 67(h'0000000000000001')
+      { bytes: 'D844420102', expected: new Uint8ClampedArray([1, 2]) }, // 68(h'0102')
+      { bytes: 'D8484201FF', expected: new Int8Array([1, -1]) }, // 72(h'01FF')
+      { bytes: 'D84942FFFE', expected: new Int16Array([-2]) }, // 73(h'FFFE')
+      { bytes: 'D84A44FFFFFFFE', expected: new Int32Array([-2]) }, // 74(h'FFFFFFFE')
+      {
+        bytes: 'D84B48FFFFFFFFFFFFFFFE',
+        expected: new BigInt64Array([-2n]),
+      }, // 75(h'FFFFFFFFFFFFFFFE')
+      { bytes: 'D850443E00FC00', expected: new Float32Array([1.5, -Infinity]) }, // 80(h'3E00FC00')
+      { bytes: 'D85144BFC00000', expected: new Float32Array([-1.5]) }, // 81(h'BFC00000')
+      {
+        bytes: 'D85248BFF8000000000000',
+        expected: new Float64Array([-1.5]),
+      }, // 82(h'BFF8000000000000')
+      { bytes: 'D85442003E', expected: new Float32Array([1.5]) }, // 84(h'003E')
+      { bytes: 'D85640', expected: new Float64Array() }, // 86(h'')
+      {
+        bytes: 'D8288282020386010203040506',
+        expected: new MultiDimensionalArray([2, 3], [1, 2, 3, 4, 5, 6]),
+      }, // 40([[2, 3], [1, 2, 3, 4, 5, 6]])
+      {
+        bytes: 'D82882820201420102',
+        expected: new MultiDimensionalArray([2, 1], new Uint8Array([1, 2])),
+      }, // 40([[2, 1], h'0102'])
+      {
+        bytes: 'D82882820201D8454401000200',
+        expected: new MultiDimensionalArray([2, 1], new Uint16Array([1, 2])),
+      }, // 40([[2, 1], 69(h'01000200')])
+    ])('should decode $bytes', ({ bytes, expected }) => {
+      const result = decode(hexStringToBytes(bytes));
+
+      expect(result).toEqual(expected);
+      expect(result?.constructor).toBe(expected.constructor);
+    });
+
+    it('should decode aligned typed arrays as views with byteStrings set to view', () => {
+      const bytes = hexStringToBytes('81D8454401000200'); // [69(h'01000200')]
+      const [result] = decode<Uint16Array[]>(bytes, undefined, {
+        byteStrings: 'view',
+      });
+
+      expect(result).toEqual(new Uint16Array([1, 2]));
+      expect(result.buffer).toBe(bytes.buffer);
+    });
+
+    it('should copy unaligned typed arrays', () => {
+      const bytes = hexStringToBytes('D8454401000200'); // 69(h'01000200')
+      const result = decode<Uint16Array>(bytes, undefined, {
+        byteStrings: 'view',
+      });
+
+      expect(result).toEqual(new Uint16Array([1, 2]));
+      expect(result.buffer).not.toBe(bytes.buffer);
+    });
+
+    it('should decode typed arrays with arraybuffer byte strings', () => {
+      const bytes = hexStringToBytes('D855440000C03F'); // 85(h'0000C03F')
+
+      expect(decode(bytes, undefined, { byteStrings: 'arraybuffer' })).toEqual(
+        new Float32Array([1.5]),
+      );
+    });
+
+    it.each([
+      'D84543010002', // 69(h'010002')
+      'D8456161', // 69("a")
+      'D82882810204', // 40([[2], 4])
+      'D82882810283010203', // 40([[2], [1, 2, 3]])
+      'D828828161618101', // 40([["a"], [1]])
+      'D82801', // 40(1)
+    ])('should throw on invalid content %s', bytes => {
+      expect(() => decode(hexStringToBytes(bytes))).toThrow(
+        expect.objectContaining({
+          name: 'DecodingError',
+          message: expect.stringContaining('Invalid content for'),
+        }),
+      );
+    });
+
+    it('should not decode 128-bit floats', () => {
+      const bytes = 'D85340'; // 83(h'')
+
+      expect(() => decode(hexStringToBytes(bytes))).toThrow(
+        'Unsupported tag: 83.',
+      );
+    });
+  });
+
+  describe('decode sets', () => {
+    it('should decode sets', () => {
+      const bytes = 'A16161D9010282016161'; // { "a": 258([1, "a"]) }
+
+      expect(decode(hexStringToBytes(bytes))).toEqual({
+        a: new Set([1, 'a']),
+      });
+    });
+
+    it('should throw on invalid set content', () => {
+      const bytes = 'D9010201'; // 258(1)
+
+      expect(() => decode(hexStringToBytes(bytes))).toThrow(
+        'Invalid content for set tag 258',
+      );
+    });
+  });
+
+  describe('decode invalid simple values', () => {
+    it.each([
+      { bytes: 'F800', value: 0 },
+      { bytes: 'F814', value: 20 },
+      { bytes: 'F818', value: 24 },
+      { bytes: 'F81F', value: 31 },
+    ])('should reject the two-byte encoding of $value', ({ bytes, value }) => {
+      expect(() => decode(hexStringToBytes(bytes))).toThrow(
+        expect.objectContaining({
+          name: 'DecodingError',
+          message: `Invalid simple value: ${value} must not be encoded in two bytes`,
+          offset: 1,
+        }),
+      );
+    });
+
+    it.each(['FC', 'FD', 'FE'])(
+      'should reject the reserved info of %s',
+      bytes => {
+        expect(() => decode(hexStringToBytes(bytes))).toThrow(
+          'Unrecognized simple type',
+        );
+      },
+    );
+
+    it('should throw on a truncated two-byte simple value', () => {
+      expect(() => decode(hexStringToBytes('F8'))).toThrow(UnexpectedEndError);
+    });
+  });
+
+  describe('decode indefinite length markers', () => {
+    it.each(['1F', '3F', 'DF01'])(
+      'should reject the indefinite length marker of the integer or tag %s',
+      bytes => {
+        expect(() => decode(hexStringToBytes(bytes))).toThrow(
+          expect.objectContaining({
+            name: 'DecodingError',
+            message: 'Unsupported integer info: 11111',
+            offset: 1,
+          }),
+        );
+      },
+    );
+
+    it.each([
+      { bytes: 'FF', offset: 1 },
+      { bytes: '8201FF', offset: 3 },
+      { bytes: 'A16161FF', offset: 4 },
+      { bytes: 'C1FF', offset: 2 },
+      { bytes: '9F81FFFF', offset: 3 },
+    ])(
+      'should reject a break outside of an indefinite length item in $bytes',
+      ({ bytes, offset }) => {
+        expect(() => decode(hexStringToBytes(bytes))).toThrow(
+          expect.objectContaining({
+            name: 'DecodingError',
+            message: 'Unexpected break outside of an indefinite length item',
+            offset,
+          }),
+        );
+      },
+    );
+  });
+
+  describe('decode with maps', () => {
+    it.each<{ bytes: string; expected: Map<CborValue, CborValue> }>([
+      { bytes: 'A0', expected: new Map() }, // empty map
+      { bytes: 'BFFF', expected: new Map() }, // indeterminate length empty map
+      {
+        bytes: 'A201020304',
+        expected: new Map([
+          [1, 2],
+          [3, 4],
+        ]),
+      }, // { 1: 2, 3: 4 }
+      {
+        bytes: 'BF01020304FF',
+        expected: new Map([
+          [1, 2],
+          [3, 4],
+        ]),
+      }, // indeterminate length { 1: 2, 3: 4 }
+      {
+        bytes: 'A4010220014301020361616161A0',
+        expected: new Map<CborValue, CborValue>([
+          [1, 2],
+          [-1, 1],
+          [new Uint8Array([1, 2, 3]), 'a'],
+          ['a', new Map()],
+        ]),
+      }, // { 1: 2, -1: 1, h'010203': "a", "a": {} }
+      {
+        bytes: 'A18201026161',
+        expected: new Map([[[1, 2], 'a']]),
+      }, // { [1, 2]: "a" }
+    ])('should decode map $bytes', ({ bytes, expected }) => {
+      const result = decode(hexStringToBytes(bytes), undefined, {
+        useMaps: true,
+      });
+
+      expect(result).toEqual(expected);
+    });
+
+    it.each(['A10102', 'BF0102FF', 'A1430102036161'])(
+      'should reject non-string keys in %s without maps',
+      bytes => {
+        expect(() => decode(hexStringToBytes(bytes))).toThrow(
+          'Map keys must be text strings',
+        );
+      },
+    );
+
+    it('should reject a break in a definite length map', () => {
+      expect(() => decode(hexStringToBytes('A1FF'))).toThrow(
+        'Unexpected break in a definite length map',
+      );
+    });
+
+    it('should pass stringified numeric keys to the reviver', () => {
+      const bytes = 'A2010A4101F5'; // { 1: 10, h'01': true }
+      const keys: Array<string | undefined> = [];
+      const reviver: Reviver = (value, key) => {
+        keys.push(key);
+        return value;
+      };
+      decode(hexStringToBytes(bytes), reviver, { useMaps: true });
+
+      expect(keys).toEqual(['1', undefined, undefined]);
+    });
+
+    it('should reject unsorted keys in strict mode', () => {
+      const bytes = 'A2200A0102'; // { -1: 10, 1: 2 }
+
+      expect(() =>
+        decode(hexStringToBytes(bytes), undefined, {
+          useMaps: true,
+          strict: true,
+        }),
+      ).toThrow('Non-deterministic encoding: map keys are not sorted');
+    });
+
+    it('should check key order according to the map key order in strict mode', () => {
+      const bytewise = 'A21901000120F6'; // { 256: 1, -1: null }
+      const lengthFirst = 'A220F619010001'; // { -1: null, 256: 1 }
+
+      expect(
+        decode(hexStringToBytes(bytewise), undefined, {
+          useMaps: true,
+          strict: true,
+        }),
+      ).toEqual(
+        new Map<CborValue, CborValue>([
+          [256, 1],
+          [-1, null],
+        ]),
+      );
+      expect(() =>
+        decode(hexStringToBytes(bytewise), undefined, {
+          useMaps: true,
+          strict: true,
+          mapKeyOrder: 'length-first',
+        }),
+      ).toThrow('Non-deterministic encoding: map keys are not sorted');
+      expect(() =>
+        decode(hexStringToBytes(lengthFirst), undefined, {
+          useMaps: true,
+          strict: true,
+          mapKeyOrder: 'length-first',
+        }),
+      ).not.toThrow();
+    });
+  });
+
+  describe('decode indefinite length strings', () => {
+    it.each<{ bytes: string; error: string }>([
+      {
+        bytes: '5F6161FF',
+        error:
+          'Indefinite length string chunks must have the same major type as the string: expected 2, got 3',
+      }, // text chunk in bytes
+      {
+        bytes: '7F4161FF',
+        error:
+          'Indefinite length string chunks must have the same major type as the string: expected 3, got 2',
+      }, // bytes chunk in text
+      {
+        bytes: '7F01FF',
+        error:
+          'Indefinite length string chunks must have the same major type as the string: expected 3, got 0',
+      }, // integer chunk in text
+      {
+        bytes: '5F5F4101FFFF',
+        error: 'Indefinite length string chunks must have a definite length',
+      }, // nested indefinite length bytes
+      {
+        bytes: '7F7F6161FFFF',
+        error: 'Indefinite length string chunks must have a definite length',
+      }, // nested indefinite length text
+    ])('should reject $bytes', ({ bytes, error }) => {
+      expect(() => decode(hexStringToBytes(bytes))).toThrow(error);
+    });
+
+    it('should not share memory with the input', () => {
+      const bytes = hexStringToBytes('5F42010243030405FF');
+      const result = decode<Uint8Array>(bytes);
+      bytes.fill(0);
+
+      expect(result).toEqual(new Uint8Array([1, 2, 3, 4, 5]));
+    });
+
+    it('should reject indefinite length strings in strict mode', () => {
+      expect(() =>
+        decode(hexStringToBytes('7F6161FF'), undefined, { strict: true }),
+      ).toThrow(
+        'Non-deterministic encoding: indefinite length items are not allowed',
+      );
+    });
+  });
+
+  describe('decode in strict mode', () => {
+    it.each<{ bytes: string; error: string }>([
+      { bytes: '1817', error: '23 is not encoded in its shortest form' }, // integer
+      { bytes: '3900FF', error: '255 is not encoded in its shortest form' }, // negative integer
+      {
+        bytes: '1A0000FFFF',
+        error: '65535 is not encoded in its shortest form',
+      }, // integer
+      {
+        bytes: '1B00000000FFFFFFFF',
+        error: '4294967295 is not encoded in its shortest form',
+      }, // integer
+      { bytes: '580101', error: '1 is not encoded in its shortest form' }, // byte string length
+      { bytes: '98020102', error: '2 is not encoded in its shortest form' }, // array length
+      { bytes: 'D80101', error: '1 is not encoded in its shortest form' }, // tag
+      { bytes: '9FFF', error: 'indefinite length items are not allowed' }, // array
+      { bytes: 'BFFF', error: 'indefinite length items are not allowed' }, // map
+      { bytes: 'FA3FC00000', error: '1.5 must be encoded in half precision' }, // single precision
+      {
+        bytes: 'FB3FF8000000000000',
+        error: '1.5 must be encoded in half precision',
+      }, // double precision
+      {
+        bytes: 'FB40F86A0800000000',
+        error: '100000.5 must be encoded in single precision',
+      }, // double precision
+      { bytes: 'F97E01', error: 'NaN must be encoded as 0xf97e00' }, // half precision NaN
+      { bytes: 'FA7FC00000', error: 'NaN must be encoded in half precision' }, // single precision NaN
+      { bytes: 'A2616202616101', error: 'map keys are not sorted' }, // { "b": 2, "a": 1 }
+      { bytes: 'A262616101616202', error: 'map keys are not sorted' }, // { "aa": 1, "b": 2 }
+      { bytes: 'A2616101616102', error: 'duplicate map key' }, // { "a": 1, "a": 2 }
+      { bytes: '81A16161A2616202616101', error: 'map keys are not sorted' }, // [{ "a": { "b": 2, "a": 1 } }]
+      { bytes: 'C24101', error: 'bignum 1 must be encoded as an integer' }, // 2(h'01')
+      { bytes: 'C34101', error: 'bignum -2 must be encoded as an integer' }, // 3(h'01')
+      {
+        bytes: 'C24A00010000000000000000',
+        error: 'bignums must not have leading zeros',
+      }, // 2(h'00010000000000000000')
+    ])('should reject $bytes', ({ bytes, error }) => {
+      expect(() =>
+        decode(hexStringToBytes(bytes), undefined, { strict: true }),
+      ).toThrow(`Non-deterministic encoding: ${error}`);
+    });
+
+    it.each<{ bytes: string; expected: CborValue }>([
+      { bytes: '1818', expected: 24 },
+      { bytes: '390100', expected: -257 },
+      { bytes: '1B0000000100000000', expected: 4_294_967_296n },
+      {
+        bytes: 'C249010000000000000000',
+        expected: 18_446_744_073_709_551_616n,
+      },
+      { bytes: 'F93E00', expected: 1.5 },
+      { bytes: 'FA47C35040', expected: 100_000.5 },
+      { bytes: 'FB3FF199999999999A', expected: 1.1 },
+      { bytes: 'F97E00', expected: NaN },
+      { bytes: 'F98000', expected: -0 },
+      { bytes: 'A361610361620162616102', expected: { a: 3, b: 1, aa: 2 } },
+      { bytes: 'D9D9F7A16161A2616101616202', expected: { a: { a: 1, b: 2 } } },
+    ])('should accept $bytes', ({ bytes, expected }) => {
+      const result = decode(hexStringToBytes(bytes), undefined, {
+        strict: true,
+      });
+
+      expect(result).toEqual(expected);
+    });
+
+    it('should accept map keys in length-first order', () => {
+      const bytes = 'A361610361620162616102'; // { "a": 3, "b": 1, "aa": 2 }
+      const result = decode(hexStringToBytes(bytes), undefined, {
+        strict: true,
+        mapKeyOrder: 'length-first',
+      });
+
+      expect(result).toEqual({ a: 3, b: 1, aa: 2 });
+    });
+
+    it('should accept non-deterministic input when not strict', () => {
+      const bytes = 'A2616218026161FA3FC00000'; // { "b": 2, "a": 1.5 }
+      const result = decode(hexStringToBytes(bytes));
+
+      expect(result).toEqual({ b: 2, a: 1.5 });
+    });
+  });
+
   it('should decode concurrently', async () => {
     const values = [
       'A2616101616202', // { "a": 1, "b": 2 }
@@ -404,6 +1148,968 @@ describe('decode', () => {
   });
 });
 
+describe('Decoder', () => {
+  it('should decode with its own options', () => {
+    const decoder = new Decoder({ unknownTags: 'tagged' });
+    const bytes = hexStringToBytes('C601'); // 6(1)
+
+    expect(decoder.decode(bytes)).toEqual(new Tagged(6, 1));
+    expect(() => decode(bytes)).toThrow('Unsupported tag: 6.');
+  });
+
+  it('should be reentrant when a reviver decodes with the same decoder', () => {
+    const decoder = new Decoder();
+    const bytes = 'A2616101616246A16163820203'; // { "a": 1, "b": h'A16163820203' }
+    const reviver: Reviver = (value, key) =>
+      key === 'b' ? decoder.decode(value as Uint8Array) : value;
+    const result = decoder.decode(hexStringToBytes(bytes), reviver);
+
+    expect(result).toEqual({ a: 1, b: { c: [2, 3] } });
+  });
+
+  it('should be reentrant when a reviver uses the default decoder', () => {
+    const bytes = 'A2616101616246A16163820203'; // { "a": 1, "b": h'A16163820203' }
+    const reviver: Reviver = (value, key) =>
+      key === 'b' ? decode(value as Uint8Array) : value;
+    const result = decode(hexStringToBytes(bytes), reviver);
+
+    expect(result).toEqual({ a: 1, b: { c: [2, 3] } });
+  });
+
+  it('should be reentrant when a tag handler decodes its content', () => {
+    const decoder: Decoder = new Decoder({
+      tags: [{ tag: 24, decode: value => decoder.decode(value as Uint8Array) }],
+    });
+    const bytes = 'A26161D81843820102616203'; // { "a": 24(h'820102'), "b": 3 }
+    const result = decoder.decode(hexStringToBytes(bytes));
+
+    expect(result).toEqual({ a: [1, 2], b: 3 });
+  });
+
+  it('should be usable after a decoding error', () => {
+    const decoder = new Decoder();
+
+    expect(() => decoder.decode(hexStringToBytes('C601'))).toThrow(
+      'Unsupported tag: 6.',
+    );
+    expect(decoder.decode(hexStringToBytes('820102'))).toEqual([1, 2]);
+  });
+});
+
+describe('decoding errors', () => {
+  function decodeError(bytes: string, options?: DecodeOptions): unknown {
+    try {
+      decode(hexStringToBytes(bytes), undefined, options);
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected decoding to fail');
+  }
+
+  it.each<{
+    bytes: string;
+    errorClass: new (...args: never[]) => DecodingError;
+    name: string;
+    properties: Partial<UnsupportedTagError & LimitExceededError>;
+    options?: DecodeOptions;
+  }>([
+    {
+      bytes: 'A1616182C601',
+      errorClass: UnsupportedTagError,
+      name: 'UnsupportedTagError',
+      properties: {
+        tag: 6,
+        offset: 5,
+        majorType: CborMajorType.Tag,
+        path: '$.a[0]',
+      },
+    },
+    {
+      bytes: 'A1616181A10102',
+      errorClass: InvalidMapKeyError,
+      name: 'InvalidMapKeyError',
+      properties: {
+        offset: 6,
+        majorType: CborMajorType.UnsignedInteger,
+        path: '$.a[0]',
+      },
+    },
+    {
+      bytes: '82018200',
+      errorClass: LimitExceededError,
+      name: 'LimitExceededError',
+      properties: {
+        limit: 'maxDepth',
+        max: 1,
+        offset: 3,
+        majorType: CborMajorType.Array,
+        path: '$[1]',
+      },
+      options: { limits: { maxDepth: 1 } },
+    },
+    {
+      bytes: '8201F802',
+      errorClass: DecodingError,
+      name: 'DecodingError',
+      properties: {
+        offset: 3,
+        majorType: CborMajorType.Simple,
+        path: '$[1]',
+      },
+    },
+    {
+      bytes: '0102',
+      errorClass: DecodingError,
+      name: 'DecodingError',
+      properties: { offset: 1, majorType: undefined, path: '$' },
+    },
+  ])(
+    'should throw a $name for $bytes',
+    ({ bytes, errorClass, name, properties, options }) => {
+      const error = decodeError(bytes, options);
+
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error).toBeInstanceOf(DecodingError);
+      expect(error).toMatchObject({ name, ...properties });
+    },
+  );
+});
+
+describe('decode byte strings', () => {
+  it('should copy byte strings by default', () => {
+    const bytes = hexStringToBytes('820143020304');
+    const result = decode<[number, Uint8Array]>(bytes);
+    bytes.fill(0);
+
+    expect(result[1]).toEqual(new Uint8Array([2, 3, 4]));
+    expect(result[1].buffer).not.toBe(bytes.buffer);
+  });
+
+  it('should return views into the input', () => {
+    const bytes = offsetView('820143020304');
+    const result = decode<[number, Uint8Array]>(bytes, undefined, {
+      byteStrings: 'view',
+    });
+
+    expect(result[1]).toEqual(new Uint8Array([2, 3, 4]));
+    expect(result[1].buffer).toBe(bytes.buffer);
+    expect(result[1].byteOffset).toBe(bytes.byteOffset + 3);
+
+    bytes[3] = 9;
+    expect(result[1]).toEqual(new Uint8Array([9, 3, 4]));
+  });
+
+  it('should copy indefinite length byte strings in view mode', () => {
+    const bytes = hexStringToBytes('5F42010243030405FF');
+    const result = decode<Uint8Array>(bytes, undefined, {
+      byteStrings: 'view',
+    });
+    bytes.fill(0);
+
+    expect(result).toEqual(new Uint8Array([1, 2, 3, 4, 5]));
+  });
+
+  it.each(['43010203', '5F4101420203FF'])(
+    'should decode %s into an ArrayBuffer',
+    hex => {
+      const bytes = hexStringToBytes(hex);
+      const result = decode(bytes, undefined, { byteStrings: 'arraybuffer' });
+      bytes.fill(0);
+
+      expect(result).toBeInstanceOf(ArrayBuffer);
+      expect(new Uint8Array(result as ArrayBuffer)).toEqual(
+        new Uint8Array([1, 2, 3]),
+      );
+    },
+  );
+
+  it('should return views into the chunks of a stream', async () => {
+    const chunks = [hexStringToBytes('4301'), hexStringToBytes('0203')];
+    const results: CborValue[] = [];
+    for await (const item of decodeStream(chunks, undefined, {
+      byteStrings: 'view',
+    })) {
+      results.push(item);
+    }
+    chunks.forEach(chunk => chunk.fill(0));
+
+    expect(results).toEqual([new Uint8Array([1, 2, 3])]);
+  });
+});
+
+describe('decode invalid UTF-8', () => {
+  it.each([
+    '62C328', // invalid continuation byte
+    '61FF', // invalid byte
+    '63EDA080', // encoded surrogate
+    '7F61C361A9FF', // character split across chunks
+    'A162C328F5', // invalid map key
+  ])('should reject %s when fatal', bytes => {
+    expect(() =>
+      decode(hexStringToBytes(bytes), undefined, { fatal: true }),
+    ).toThrow(InvalidUtf8Error);
+  });
+
+  it('should reject invalid UTF-8 in strict mode by default', () => {
+    expect(() =>
+      decode(hexStringToBytes('62C328'), undefined, { strict: true }),
+    ).toThrow('Text strings must be valid UTF-8');
+  });
+
+  it('should allow replacing invalid UTF-8 in strict mode', () => {
+    const result = decode(hexStringToBytes('62C328'), undefined, {
+      strict: true,
+      fatal: false,
+    });
+
+    expect(result).toBe('\uFFFD(');
+  });
+
+  it('should replace invalid UTF-8 by default', () => {
+    expect(decode(hexStringToBytes('62C328'))).toBe('\uFFFD(');
+  });
+
+  it('should report where the invalid text string is', () => {
+    const bytes = hexStringToBytes('A1616182616162C328'); // { "a": ["a", h'C328' as text] }
+
+    expect(() => decode(bytes, undefined, { fatal: true })).toThrow(
+      expect.objectContaining({ offset: 9, path: '$.a[1]' }),
+    );
+  });
+
+  it('should accept valid UTF-8 when fatal', () => {
+    const bytes = hexStringToBytes('7F62C3A964F09F9880FF'); // "é😀" in two chunks
+
+    expect(decode(bytes, undefined, { fatal: true })).toBe('é😀');
+  });
+});
+
+describe('decode truncated input', () => {
+  it.each<{
+    bytes: string;
+    offset: number;
+    expectedBytes: number;
+    path: string;
+    options?: DecodeOptions;
+  }>([
+    { bytes: '19', offset: 1, expectedBytes: 2, path: '$' }, // integer
+    { bytes: '1B0102', offset: 1, expectedBytes: 8, path: '$' }, // 8-byte integer
+    { bytes: 'FA0102', offset: 1, expectedBytes: 4, path: '$' }, // single precision float
+    { bytes: '430102', offset: 1, expectedBytes: 3, path: '$' }, // byte string
+    { bytes: '7F6261', offset: 2, expectedBytes: 2, path: '$' }, // text string chunk
+    { bytes: '9F0102', offset: 3, expectedBytes: 1, path: '$[2]' }, // array item
+    {
+      bytes: 'A163666F6F840102' + '03A163626172' + '1901',
+      offset: 15,
+      expectedBytes: 2,
+      path: '$.foo[3].bar',
+    }, // nested item
+    { bytes: 'A16361206219', offset: 6, expectedBytes: 2, path: '$["a b"]' }, // key that is not an identifier
+    {
+      bytes: 'A10119',
+      offset: 3,
+      expectedBytes: 2,
+      path: '$[1]',
+      options: { useMaps: true },
+    }, // integer key
+    {
+      bytes: 'A1410119',
+      offset: 4,
+      expectedBytes: 2,
+      path: '$[?]',
+      options: { useMaps: true },
+    }, // byte string key
+  ])(
+    'should report the offset and path for $bytes',
+    ({ bytes, offset, expectedBytes, path, options }) => {
+      let error: unknown;
+      try {
+        decode(hexStringToBytes(bytes), undefined, options);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(UnexpectedEndError);
+      expect(error).toMatchObject({ offset, expectedBytes, path });
+      expect((error as Error).message).toBe(
+        `Unexpected end of input: expected ${expectedBytes} ${expectedBytes === 1 ? 'byte' : 'bytes'} at offset ${offset}, in ${path}`,
+      );
+    },
+  );
+
+  it('should not add its path to the errors of a tag handler that decodes its content', () => {
+    const tags: TagHandler[] = [
+      { tag: 1000, decode: value => decode(value as Uint8Array) },
+    ];
+    const bytes = hexStringToBytes('A16161D903E843820119'); // { "a": 1000(h'820119') }, with truncated content
+
+    expect(() => decode(bytes, undefined, { tags })).toThrow(
+      expect.objectContaining({
+        message:
+          'Unexpected end of input: expected 2 bytes at offset 3, in $[1]',
+        path: '$[1]',
+      }),
+    );
+  });
+
+  it('should not read past the end of an offset view', () => {
+    const bytes = hexStringToBytes('1A01020304').subarray(0, 3);
+
+    expect(() => decode(bytes)).toThrow(
+      'Unexpected end of input: expected 4 bytes at offset 1, in $',
+    );
+  });
+});
+
+describe('decode with limits', () => {
+  it.each<{ bytes: string; limits: DecodeLimits; error: string }>([
+    { bytes: '8181818100', limits: { maxDepth: 3 }, error: 'maxDepth is 3' },
+    { bytes: 'A16161818100', limits: { maxDepth: 2 }, error: 'maxDepth is 2' },
+    { bytes: 'C6C6C600', limits: { maxDepth: 2 }, error: 'maxDepth is 2' },
+    {
+      bytes: '83010203',
+      limits: { maxArrayLength: 2 },
+      error: 'maxArrayLength is 2',
+    },
+    {
+      bytes: '9F010203FF',
+      limits: { maxArrayLength: 2 },
+      error: 'maxArrayLength is 2',
+    },
+    {
+      bytes: 'A2616101616202',
+      limits: { maxMapSize: 1 },
+      error: 'maxMapSize is 1',
+    },
+    {
+      bytes: 'BF616101616202FF',
+      limits: { maxMapSize: 1 },
+      error: 'maxMapSize is 1',
+    },
+    {
+      bytes: '43010203',
+      limits: { maxStringLength: 2 },
+      error: 'maxStringLength is 2',
+    },
+    {
+      bytes: '63616263',
+      limits: { maxStringLength: 2 },
+      error: 'maxStringLength is 2',
+    },
+    {
+      bytes: '5F4101420203FF',
+      limits: { maxStringLength: 2 },
+      error: 'maxStringLength is 2',
+    },
+    {
+      bytes: '7F6161626263FF',
+      limits: { maxStringLength: 2 },
+      error: 'maxStringLength is 2',
+    },
+    {
+      bytes: '83010203',
+      limits: { maxInputSize: 3 },
+      error: 'maxInputSize is 3',
+    },
+  ])('should reject $bytes with $limits', ({ bytes, limits, error }) => {
+    const decodeWithLimits = (): CborValue =>
+      decode(hexStringToBytes(bytes), undefined, {
+        limits,
+        unknownTags: 'tagged',
+      });
+
+    expect(decodeWithLimits).toThrow(LimitExceededError);
+    expect(decodeWithLimits).toThrow(`Limit exceeded: ${error}`);
+  });
+
+  it.each<{ bytes: string; limits: DecodeLimits }>([
+    { bytes: '818100', limits: { maxDepth: 2 } },
+    { bytes: 'C6C600', limits: { maxDepth: 2 } },
+    { bytes: '820102', limits: { maxArrayLength: 2 } },
+    { bytes: '9F0102FF', limits: { maxArrayLength: 2 } },
+    { bytes: 'A1616101', limits: { maxMapSize: 1 } },
+    { bytes: 'BF616101FF', limits: { maxMapSize: 1 } },
+    { bytes: '5F41014102FF', limits: { maxStringLength: 2 } },
+    { bytes: '820102', limits: { maxInputSize: 3 } },
+  ])('should accept $bytes with $limits', ({ bytes, limits }) => {
+    expect(() =>
+      decode(hexStringToBytes(bytes), undefined, {
+        limits,
+        unknownTags: 'tagged',
+      }),
+    ).not.toThrow();
+  });
+
+  it('should limit the nesting depth by default', () => {
+    const depth = 100_000;
+    const bytes = new Uint8Array(depth + 1).fill(0x81);
+    bytes[depth] = 0x00;
+
+    expect(() => decode(bytes)).toThrow('Limit exceeded: maxDepth is 1024');
+  });
+
+  it('should not allocate arrays that are longer than the input', () => {
+    const bytes = hexStringToBytes('9B00000000FFFFFFFF01'); // array of 4294967295 items
+
+    expect(() => decode(bytes)).toThrow(UnexpectedEndError);
+  });
+
+  it('should be usable after a limit is exceeded', () => {
+    const decoder = new Decoder({ limits: { maxDepth: 1 } });
+
+    expect(() => decoder.decode(hexStringToBytes('818100'))).toThrow(
+      LimitExceededError,
+    );
+    expect(decoder.decode(hexStringToBytes('820102'))).toEqual([1, 2]);
+  });
+
+  it('should report the offset of an oversized input after a previous decode', () => {
+    const decoder = new Decoder({ limits: { maxInputSize: 4 } });
+    decoder.decode(hexStringToBytes('83010203'));
+
+    expect(() => decoder.decode(hexStringToBytes('8401020304'))).toThrow(
+      expect.objectContaining({
+        name: 'LimitExceededError',
+        offset: 0,
+        majorType: undefined,
+      }),
+    );
+  });
+});
+
+describe('decode trailing bytes', () => {
+  it.each([
+    {
+      bytes: '0102',
+      error: 'the item ends at offset 1, but the input is 2 bytes long',
+    },
+    {
+      bytes: '82010200FF',
+      error: 'the item ends at offset 3, but the input is 5 bytes long',
+    },
+  ])('should reject $bytes', ({ bytes, error }) => {
+    expect(() => decode(hexStringToBytes(bytes))).toThrow(
+      `Unexpected trailing bytes: ${error}`,
+    );
+    expect(() => new Decoder().decode(hexStringToBytes(bytes))).toThrow(
+      DecodingError,
+    );
+  });
+
+  it('should not count the bytes after an offset view', () => {
+    expect(decode(offsetView('820102').subarray(0, 3))).toEqual([1, 2]);
+  });
+});
+
+describe('decodeFirst', () => {
+  it('should return the first item and the number of bytes read', () => {
+    expect(decodeFirst(hexStringToBytes('820102616101'))).toEqual({
+      value: [1, 2],
+      bytesRead: 3,
+    });
+  });
+
+  it('should decode framed data', () => {
+    const bytes = hexStringToBytes('0343010203A0'); // length 3, then h'010203', then {}
+    const { value: length, bytesRead } = decodeFirst<number>(bytes);
+
+    expect(length).toBe(3);
+    expect(decodeFirst(bytes.subarray(bytesRead))).toEqual({
+      value: new Uint8Array([1, 2, 3]),
+      bytesRead: 4,
+    });
+  });
+
+  it('should apply the reviver and options', () => {
+    const reviver: Reviver = value =>
+      value instanceof Map ? value.size : value;
+    const result = decodeFirst(hexStringToBytes('A1010200'), reviver, {
+      useMaps: true,
+    });
+
+    expect(result).toEqual({ value: 1, bytesRead: 3 });
+  });
+});
+
+describe('decodeSequence', () => {
+  it.each<{ bytes: string; expected: CborValue[] }>([
+    { bytes: '', expected: [] },
+    { bytes: '01', expected: [1] },
+    { bytes: '0161618102A16162F5', expected: [1, 'a', [2], { b: true }] },
+    { bytes: '9F01FF7F6161FF', expected: [[1], 'a'] },
+  ])('should decode $bytes', ({ bytes, expected }) => {
+    expect(decodeSequence(hexStringToBytes(bytes))).toEqual(expected);
+  });
+
+  it('should apply the reviver and options to every value', () => {
+    const reviver: Reviver = value =>
+      typeof value === 'number' ? value * 2 : value;
+    const result = decodeSequence(hexStringToBytes('01A10102'), reviver, {
+      useMaps: true,
+    }); // 1, { 1: 2 }
+
+    expect(result).toEqual([2, new Map([[1, 4]])]);
+  });
+
+  it('should throw if the last item is truncated', () => {
+    expect(() => decodeSequence(hexStringToBytes('018201'))).toThrow(
+      UnexpectedEndError,
+    );
+  });
+
+  it('should reject a break between items', () => {
+    expect(() => decodeSequence(hexStringToBytes('01FF'))).toThrow(
+      'Unexpected break outside of an indefinite length item',
+    );
+  });
+
+  it('should report offsets from the start of the sequence', () => {
+    expect(() => decodeSequence(hexStringToBytes('010203811A00'))).toThrow(
+      'Unexpected end of input: expected 4 bytes at offset 5, in $[0]',
+    );
+  });
+});
+
+describe('Decoder.decodeFirst', () => {
+  it('should return the first item and the number of bytes read', () => {
+    const decoder = new Decoder();
+
+    expect(decoder.decodeFirst(hexStringToBytes('8201026161'))).toEqual({
+      value: [1, 2],
+      bytesRead: 3,
+    });
+  });
+
+  it.each([
+    '19', // integer with a missing argument
+    '1A0102', // integer with a truncated argument
+    'F93C', // truncated half precision float
+    '430102', // truncated byte string
+    '646162', // truncated text string
+    '8201', // truncated array
+    'A16161', // map without a value
+    '9F0102', // indefinite length array without a break
+    '5F4101', // indefinite length bytes without a break
+  ])('should throw an UnexpectedEndError for %s', bytes => {
+    expect(() => new Decoder().decodeFirst(hexStringToBytes(bytes))).toThrow(
+      UnexpectedEndError,
+    );
+  });
+
+  it('should add the base offset to the offsets of errors', () => {
+    expect(() =>
+      new Decoder().decodeFirst(hexStringToBytes('811A00'), undefined, 3),
+    ).toThrow('Unexpected end of input: expected 4 bytes at offset 5, in $[0]');
+  });
+});
+
+describe('decodeStream', () => {
+  async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterable) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  const sequence = hexStringToBytes('01A16161820203656162636465F5'); // 1, { "a": [2, 3] }, "abcde", true
+  const items = [1, { a: [2, 3] }, 'abcde', true];
+
+  it.each([1, 2, 3, 5, sequence.length])(
+    'should decode items split in chunks of %i bytes',
+    async chunkSize => {
+      const chunks: Uint8Array[] = [];
+      for (let i = 0; i < sequence.length; i += chunkSize) {
+        chunks.push(sequence.slice(i, i + chunkSize));
+      }
+
+      expect(await collect(decodeStream(chunks))).toEqual(items);
+    },
+  );
+
+  it('should decode an async iterable of chunks', async () => {
+    async function* chunks(): AsyncGenerator<Uint8Array> {
+      yield sequence.subarray(0, 4);
+      yield sequence.subarray(4);
+    }
+
+    expect(await collect(decodeStream(chunks()))).toEqual(items);
+  });
+
+  it('should yield each item as soon as it is complete', async () => {
+    const yielded: CborValue[] = [];
+    async function* chunks(): AsyncGenerator<Uint8Array> {
+      yield hexStringToBytes('0182');
+      expect(yielded).toEqual([1]);
+      yield hexStringToBytes('0203');
+      expect(yielded).toEqual([1, [2, 3]]);
+    }
+
+    for await (const item of decodeStream(chunks())) {
+      yielded.push(item);
+    }
+  });
+
+  it('should decode with a reviver and options', async () => {
+    const reviver: Reviver = value =>
+      typeof value === 'number' ? value * 2 : value;
+    const chunks = [hexStringToBytes('A1'), hexStringToBytes('0102')]; // { 1: 2 }
+
+    expect(
+      await collect(decodeStream(chunks, reviver, { useMaps: true })),
+    ).toEqual([new Map([[1, 4]])]);
+  });
+
+  it('should throw if the input ends in the middle of an item', async () => {
+    const chunks = [hexStringToBytes('01'), hexStringToBytes('8201')];
+
+    await expect(collect(decodeStream(chunks))).rejects.toThrow(
+      UnexpectedEndError,
+    );
+  });
+
+  it('should decode every split of items of all kinds', async () => {
+    const bytes = hexStringToBytes(
+      [
+        '9F018202039F0405FFFF', // [_ 1, [2, 3], [_ 4, 5]]
+        'BF61610161629F0203FFFF', // {_ "a": 1, "b": [_ 2, 3]}
+        '5F42010243030405FF', // (_ h'0102', h'030405')
+        'C11A514B67B0', // 1(1363896240)
+        '1B0000000100000000', // 4294967296
+        'F93E00', // 1.5
+        'F8FF', // simple(255)
+        '8040A060', // [], h'', {}, ""
+        'D9D9F78100', // 55799([0])
+      ].join(''),
+    );
+    const expected = decodeSequence(bytes);
+
+    for (let split = 1; split < bytes.length; split++) {
+      const chunks = [bytes.subarray(0, split), bytes.subarray(split)];
+      expect(await collect(decodeStream(chunks))).toEqual(expected);
+    }
+    const byteChunks = Array.from(bytes, byte => new Uint8Array([byte]));
+    expect(await collect(decodeStream(byteChunks))).toEqual(expected);
+  });
+
+  it('should call the reviver once per decoded value', async () => {
+    const values = Array.from({ length: 1_000 }, (_, i) => i);
+    const bytes = encode(values);
+    const chunks = Array.from(bytes, byte => new Uint8Array([byte]));
+    let reviverCalls = 0;
+    const reviver: Reviver = value => {
+      reviverCalls++;
+      return value;
+    };
+
+    expect(await collect(decodeStream(chunks, reviver))).toEqual([values]);
+    expect(reviverCalls).toBe(values.length + 1);
+  });
+
+  it('should call tag handlers once per complete item', async () => {
+    let handlerCalls = 0;
+    const tags: TagHandler[] = [
+      {
+        tag: 6,
+        decode: value => {
+          handlerCalls++;
+          return value;
+        },
+      },
+    ];
+    const chunks = [
+      hexStringToBytes('C6820102'),
+      hexStringToBytes('C682'),
+      hexStringToBytes('0304'),
+    ]; // 6([1, 2]), 6([3, 4]), split in three chunks
+
+    expect(await collect(decodeStream(chunks, undefined, { tags }))).toEqual([
+      [1, 2],
+      [3, 4],
+    ]);
+    expect(handlerCalls).toBe(2);
+  });
+
+  it.each<{ bytes: string; limits: DecodeLimits; error: string }>([
+    {
+      bytes: '5AFFFFFFFF',
+      limits: { maxStringLength: 1_024 },
+      error: 'maxStringLength is 1024',
+    },
+    {
+      bytes: '9F01010101',
+      limits: { maxArrayLength: 3 },
+      error: 'maxArrayLength is 3',
+    },
+    { bytes: '81818181', limits: { maxDepth: 2 }, error: 'maxDepth is 2' },
+    {
+      bytes: '9F010203',
+      limits: { maxInputSize: 3 },
+      error: 'maxInputSize is 3',
+    },
+  ])(
+    'should reject $bytes with $limits before the item is complete',
+    async ({ bytes, limits, error }) => {
+      async function* chunks(): AsyncGenerator<Uint8Array> {
+        yield hexStringToBytes(bytes);
+        throw new Error('the limit was not checked');
+      }
+
+      await expect(
+        collect(decodeStream(chunks(), undefined, { limits })),
+      ).rejects.toThrow(`Limit exceeded: ${error}`);
+    },
+  );
+
+  it('should throw on invalid items', async () => {
+    const chunks = [hexStringToBytes('01C6'), hexStringToBytes('01')]; // 1, 6(1)
+
+    await expect(collect(decodeStream(chunks))).rejects.toThrow(
+      'Unsupported tag: 6.',
+    );
+  });
+
+  it('should reject a break between items', async () => {
+    const chunks = [hexStringToBytes('01FF02')];
+
+    await expect(collect(decodeStream(chunks))).rejects.toThrow(
+      'Unexpected break outside of an indefinite length item',
+    );
+  });
+
+  it('should report offsets from the start of the input', async () => {
+    const chunks = [
+      hexStringToBytes('0102'),
+      hexStringToBytes('0381'),
+      hexStringToBytes('1A00'),
+    ]; // 1, 2, 3, [ truncated
+
+    await expect(collect(decodeStream(chunks))).rejects.toThrow(
+      'Unexpected end of input: expected 4 bytes at offset 5, in $[0]',
+    );
+    await expect(
+      collect(
+        decodeStream([hexStringToBytes('0102C6'), hexStringToBytes('01')]),
+      ),
+    ).rejects.toMatchObject({ offset: 3, path: '$' });
+  });
+});
+
+describe('createDecoderStream', () => {
+  function streamOf(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+    return new ReadableStream({
+      start: controller => {
+        chunks.forEach(chunk => controller.enqueue(chunk));
+        controller.close();
+      },
+    });
+  }
+
+  async function readAll<T>(stream: ReadableStream<T>): Promise<T[]> {
+    const reader = stream.getReader();
+    const items: T[] = [];
+    for (let result = await reader.read(); !result.done; ) {
+      items.push(result.value);
+      result = await reader.read();
+    }
+    return items;
+  }
+
+  it('should decode items across chunk boundaries', async () => {
+    const chunks = [
+      hexStringToBytes('0182'),
+      hexStringToBytes('02'),
+      hexStringToBytes('0363'),
+      hexStringToBytes('616263'),
+    ]; // 1, [2, 3], "abc"
+    const stream = streamOf(chunks).pipeThrough(createDecoderStream());
+
+    expect(await readAll(stream)).toEqual([1, [2, 3], 'abc']);
+  });
+
+  it('should decode with a reviver and options', async () => {
+    const reviver: Reviver = value =>
+      typeof value === 'number' ? value * 2 : value;
+    const stream = streamOf([hexStringToBytes('C60101')]).pipeThrough(
+      createDecoderStream(reviver, { unknownTags: 'tagged' }),
+    );
+
+    expect(await readAll(stream)).toEqual([new Tagged(6, 1), 2]);
+  });
+
+  it('should error if the input ends in the middle of an item', async () => {
+    const stream = streamOf([hexStringToBytes('018201')]);
+
+    await expect(
+      readAll(stream.pipeThrough(createDecoderStream())),
+    ).rejects.toThrow(
+      'Unexpected end of input: expected 2 bytes at offset 2, in $',
+    );
+  });
+});
+
+describe('toDiagnostic', () => {
+  it.each([
+    { bytes: '00', diagnostic: '0' },
+    { bytes: '1818', diagnostic: '24' },
+    { bytes: '1BFFFFFFFFFFFFFFFF', diagnostic: '18446744073709551615' },
+    { bytes: '3BFFFFFFFFFFFFFFFF', diagnostic: '-18446744073709551616' },
+    { bytes: '3903E7', diagnostic: '-1000' },
+    { bytes: 'C249010000000000000000', diagnostic: "2(h'010000000000000000')" },
+    { bytes: 'F90000', diagnostic: '0.0_1' },
+    { bytes: 'F98000', diagnostic: '-0.0_1' },
+    { bytes: 'F93E00', diagnostic: '1.5_1' },
+    { bytes: 'FA47C35000', diagnostic: '100000.0_2' },
+    { bytes: 'FB3FF199999999999A', diagnostic: '1.1_3' },
+    { bytes: 'FB7E37E43C8800759C', diagnostic: '1.0e+300_3' },
+    { bytes: 'F97C00', diagnostic: 'Infinity_1' },
+    { bytes: 'F9FC00', diagnostic: '-Infinity_1' },
+    { bytes: 'F97E00', diagnostic: 'NaN_1' },
+    { bytes: 'F4', diagnostic: 'false' },
+    { bytes: 'F6', diagnostic: 'null' },
+    { bytes: 'F7', diagnostic: 'undefined' },
+    { bytes: 'F0', diagnostic: 'simple(16)' },
+    { bytes: 'F8FF', diagnostic: 'simple(255)' },
+    {
+      bytes: 'C074323031332D30332D32315432303A30343A30305A',
+      diagnostic: '0("2013-03-21T20:04:00Z")',
+    },
+    { bytes: 'D74401020304', diagnostic: "23(h'01020304')" },
+    { bytes: '40', diagnostic: "h''" },
+    { bytes: '6449455446', diagnostic: '"IETF"' },
+    { bytes: '62225C', diagnostic: '"\\"\\\\"' },
+    { bytes: '80', diagnostic: '[]' },
+    { bytes: 'A201020304', diagnostic: '{1: 2, 3: 4}' },
+    { bytes: 'A26161016162820203', diagnostic: '{"a": 1, "b": [2, 3]}' },
+    { bytes: 'A1820102F5', diagnostic: '{[1, 2]: true}' },
+  ])('should print $bytes as $diagnostic', ({ bytes, diagnostic }) => {
+    expect(toDiagnostic(hexStringToBytes(bytes))).toBe(diagnostic);
+  });
+
+  it.each([
+    { bytes: '5F42010243030405FF', diagnostic: "(_ h'0102', h'030405')" },
+    { bytes: '7F657374726561646D696E67FF', diagnostic: '(_ "strea", "ming")' },
+    { bytes: '5FFF', diagnostic: "''_" },
+    { bytes: '7FFF', diagnostic: '""_' },
+    { bytes: '9FFF', diagnostic: '[_ ]' },
+    { bytes: '9F018202039F0405FFFF', diagnostic: '[_ 1, [2, 3], [_ 4, 5]]' },
+    {
+      bytes: 'BF61610161629F0203FFFF',
+      diagnostic: '{_ "a": 1, "b": [_ 2, 3]}',
+    },
+  ])(
+    'should mark indefinite-length items in $diagnostic',
+    ({ bytes, diagnostic }) => {
+      expect(toDiagnostic(hexStringToBytes(bytes))).toBe(diagnostic);
+    },
+  );
+
+  it.each([
+    { bytes: '1817', diagnostic: '23_0' },
+    { bytes: '1B0000000000000001', diagnostic: '1_3' },
+    { bytes: '3900FF', diagnostic: '-256_1' },
+    { bytes: '780161', diagnostic: '"a"_0' },
+    { bytes: '98010A', diagnostic: '[_0 10]' },
+    { bytes: 'B9000161610A', diagnostic: '{_1 "a": 10}' },
+    { bytes: 'D80101', diagnostic: '1_0(1)' },
+  ])(
+    'should add encoding indicators in $diagnostic',
+    ({ bytes, diagnostic }) => {
+      expect(toDiagnostic(hexStringToBytes(bytes))).toBe(diagnostic);
+    },
+  );
+
+  it('should encode values before printing them', () => {
+    expect(
+      valueToDiagnostic([2n ** 64n, new Date('2013-03-21T20:04:00Z'), 1.5]),
+    ).toBe("[2(h'010000000000000000'), 1(1363896240), 1.5_1]");
+    expect(valueToDiagnostic(new Uint8Array([1, 2]))).toBe("h'0102'");
+  });
+
+  it('should indent the items of arrays and maps', () => {
+    expect(
+      valueToDiagnostic({ a: [1, new Tagged(6, [])], b: {} }, { indent: 2 }),
+    ).toBe(
+      ['{', '  "a": [', '    1,', '    6([])', '  ],', '  "b": {}', '}'].join(
+        '\n',
+      ),
+    );
+  });
+
+  it('should indent the items of arrays and maps that are map keys', () => {
+    expect(
+      valueToDiagnostic(
+        new Map<CborValue, CborValue>([
+          [[1, 2], [3]],
+          [new Map([[4, 5]]), 6],
+        ]),
+        { indent: 2 },
+      ),
+    ).toBe(
+      [
+        '{',
+        '  [',
+        '    1,',
+        '    2',
+        '  ]: [',
+        '    3',
+        '  ],',
+        '  {',
+        '    4: 5',
+        '  }: 6',
+        '}',
+      ].join('\n'),
+    );
+  });
+
+  it.each([
+    { bytes: '', error: 'Provided CBOR data is empty' },
+    {
+      bytes: 'A161618201',
+      error: 'Unexpected end of input: expected 1 byte at offset 5, in $.a[1]',
+    },
+    {
+      bytes: 'A1616181FF',
+      error: 'Unexpected break outside of an indefinite length item',
+    },
+    {
+      bytes: '0102',
+      error:
+        'Unexpected trailing bytes: the item ends at offset 1, but the input is 2 bytes long',
+    },
+    { bytes: '62C328', error: 'Text strings must be valid UTF-8' },
+    {
+      bytes: 'F810',
+      error: 'Invalid simple value: 16 must not be encoded in two bytes',
+    },
+    {
+      bytes: '5F6161FF',
+      error:
+        'Indefinite length string chunks must have the same major type as the string: expected 2, got 3',
+    },
+  ])('should reject $bytes', ({ bytes, error }) => {
+    expect(() => toDiagnostic(hexStringToBytes(bytes))).toThrow(error);
+    expect(() => toDiagnostic(hexStringToBytes(bytes))).toThrow(DecodingError);
+  });
+
+  it('should report the path of errors', () => {
+    expect(() => toDiagnostic(hexStringToBytes('A1616181FF'))).toThrow(
+      expect.objectContaining({ path: '$.a[0]', offset: 5 }),
+    );
+  });
+
+  it('should enforce the limits', () => {
+    expect(() =>
+      toDiagnostic(hexStringToBytes('8181818100'), { limits: { maxDepth: 3 } }),
+    ).toThrow(LimitExceededError);
+    expect(() =>
+      toDiagnostic(hexStringToBytes('7F62616262626364FF'), {
+        limits: { maxStringLength: 3 },
+      }),
+    ).toThrow('maxStringLength is 3');
+  });
+});
+
 function decodeBytes(bytes: string): CborValue {
   return decode(hexStringToBytes(bytes));
 }
@@ -0,0 +1,421 @@
+import { CborMajorType, CborMinorType, CborValue } from '../cbor-value';
+import {
+  DEFAULT_LIMITS,
+  DecodeLimits,
+  argumentByteLength,
+  concatUint8Arrays,
+  decodeInfo,
+  decodeMajorType,
+  isNil,
+  readArgument,
+} from '../util';
+import { DecodeOptions, Decoder, Reviver } from './decoder';
+import { UnexpectedEndError } from './decoding-error';
+
+type ScanStatus = 'complete' | 'incomplete' | 'invalid';
+
+interface ScanResult {
+  /**
+   * The offset in the chunk where the scan stopped.
+   */
+  end: number;
+  /**
+   * - `complete`: the current top-level item ends at `end`.
+   * - `incomplete`: the chunk ends before the current top-level item.
+   * - `invalid`: the item is malformed or exceeds a limit at `end`, decoding it throws the error that describes it.
+   */
+  status: ScanStatus;
+}
+
+interface PendingItem {
+  majorType: CborMajorType;
+  /**
+   * The number of nested items of the array, map, tag or indefinite-length string, `Infinity` until its break code.
+   */
+  length: number;
+  /**
+   * The number of nested items that were scanned.
+   */
+  count: number;
+  /**
+   * The total length of the chunks of an indefinite-length string.
+   */
+  stringLength: number;
+}
+
+/**
+ * Finds where the top-level items of a CBOR input end, by reading the heads of their nested items without decoding them.
+ * The input can be split anywhere: the scan resumes where the previous chunk ended, so each byte is scanned once.
+ */
+class ItemScanner {
+  private readonly pendingItems: PendingItem[] = [];
+  private depth = 0;
+  private head: number[] = [];
+  private remainingStringBytes = 0;
+
+  constructor(private readonly limits: Required<DecodeLimits>) {}
+
+  /**
+   * Scans a chunk until the end of the current top-level item.
+   * @param chunk - The next chunk of the input.
+   * @param start - The offset in the chunk where the scan starts.
+   * @returns Where the scan stopped, and why.
+   */
+  scan(chunk: Uint8Array, start: number): ScanResult {
+    let offset = start;
+    while (offset < chunk.length) {
+      if (this.remainingStringBytes > 0) {
+        const byteLength = Math.min(
+          this.remainingStringBytes,
+          chunk.length - offset,
+        );
+        this.remainingStringBytes -= byteLength;
+        offset += byteLength;
+
+        const status =
+          this.remainingStringBytes === 0 ? this.completeItem() : undefined;
+        if (status) {
+          return { end: offset, status };
+        }
+        continue;
+      }
+
+      this.head.push(chunk[offset++]);
+      const headArgumentLength = headArgumentByteLength(this.head[0]);
+      if (isNil(headArgumentLength)) {
+        return { end: offset, status: 'invalid' };
+      }
+
+      if (this.head.length > headArgumentLength) {
+        const status = this.scanHead();
+        this.head = [];
+        if (status) {
+          return { end: offset, status };
+        }
+      }
+    }
+
+    return { end: offset, status: 'incomplete' };
+  }
+
+  private scanHead(): ScanStatus | undefined {
+    const majorType = decodeMajorType(this.head[0]);
+    const info = decodeInfo(this.head[0]);
+    const isIndefinite = info === CborMinorType.Indefinite;
+    const argument = isIndefinite
+      ? 0
+      : Number(readArgument(Uint8Array.from(this.head), 1, info));
+
+    switch (majorType) {
+      case CborMajorType.ByteString:
+      case CborMajorType.TextString:
+        if (isIndefinite) {
+          return this.startItem(majorType, Infinity);
+        }
+        if (
+          argument > Number.MAX_SAFE_INTEGER ||
+          this.exceedsStringLength(argument)
+        ) {
+          return 'invalid';
+        }
+        this.remainingStringBytes = argument;
+        return argument === 0 ? this.completeItem() : undefined;
+
+      case CborMajorType.Array:
+        if (isIndefinite) {
+          return this.startItem(majorType, Infinity);
+        }
+        return argument > this.limits.maxArrayLength
+          ? 'invalid'
+          : this.startItem(majorType, argument);
+
+      case CborMajorType.Map:
+        if (isIndefinite) {
+          return this.startItem(majorType, Infinity);
+        }
+        return argument > this.limits.maxMapSize
+          ? 'invalid'
+          : this.startItem(majorType, argument * 2);
+
+      case CborMajorType.Tag:
+        return this.startItem(majorType, 1);
+
+      case CborMajorType.Simple:
+        // the break code ends the indefinite-length item that contains it, and is not well-formed anywhere else
+        if (isIndefinite) {
+          if (this.pendingItems.at(-1)?.length !== Infinity) {
+            return 'invalid';
+          }
+          this.endItem();
+        }
+        return this.completeItem();
+
+      default:
+        return this.completeItem();
+    }
+  }
+
+  private startItem(
+    majorType: CborMajorType,
+    length: number,
+  ): ScanStatus | undefined {
+    this.pendingItems.push({ majorType, length, count: 0, stringLength: 0 });
+    if (!isString(majorType)) {
+      this.depth++;
+    }
+
+    if (this.depth > this.limits.maxDepth) {
+      return 'invalid';
+    }
+
+    if (length === 0) {
+      this.endItem();
+      return this.completeItem();
+    }
+
+    return undefined;
+  }
+
+  private endItem(): void {
+    const item = this.pendingItems.pop();
+    if (item && !isString(item.majorType)) {
+      this.depth--;
+    }
+  }
+
+  /**
+   * Counts a scanned item in the item that contains it, and completes the items that it was the last item of.
+   */
+  private completeItem(): ScanStatus | undefined {
+    let item = this.pendingItems.at(-1);
+    while (item) {
+      item.count++;
+
+      if (item.length === Infinity) {
+        return this.exceedsIndefiniteLength(item) ? 'invalid' : undefined;
+      }
+
+      if (item.count < item.length) {
+        return undefined;
+      }
+
+      this.endItem();
+      item = this.pendingItems.at(-1);
+    }
+
+    return 'complete';
+  }
+
+  private exceedsIndefiniteLength(item: PendingItem): boolean {
+    switch (item.majorType) {
+      case CborMajorType.Array:
+        return item.count > this.limits.maxArrayLength;
+
+      case CborMajorType.Map:
+        return Math.ceil(item.count / 2) > this.limits.maxMapSize;
+
+      default:
+        return false;
+    }
+  }
+
+  private exceedsStringLength(byteLength: number): boolean {
+    const parent = this.pendingItems.at(-1);
+    if (parent && isString(parent.majorType)) {
+      parent.stringLength += byteLength;
+      return parent.stringLength > this.limits.maxStringLength;
+    }
+
+    return byteLength > this.limits.maxStringLength;
+  }
+}
+
+/**
+ * The number of bytes of the argument that follows the initial byte of an item head, which is 0 for indefinite lengths.
+ * Returns `undefined` for the reserved additional information values 28 to 30, which are not well-formed.
+ */
+function headArgumentByteLength(firstByte: number): number | undefined {
+  const info = decodeInfo(firstByte);
+  return info === CborMinorType.Indefinite ? 0 : argumentByteLength(info);
+}
+
+function isString(majorType: CborMajorType): boolean {
+  return (
+    majorType === CborMajorType.ByteString ||
+    majorType === CborMajorType.TextString
+  );
+}
+
+/**
+ * Decodes consecutive top-level CBOR items from input that arrives in chunks.
+ * The chunks of an incomplete item are kept until the chunks that complete it are pushed,
+ * and each item is decoded once, when its last byte is received, so that revivers and tag handlers
+ * only run on complete items.
+ */
+class ChunkDecoder<T extends CborValue = CborValue> {
+  private chunks: Uint8Array[] = [];
+  private bufferedLength = 0;
+  // the offset in the input of the first buffered byte
+  private itemOffset = 0;
+  private readonly decoder: Decoder;
+  private readonly scanner: ItemScanner;
+  private readonly maxInputSize: number;
+
+  constructor(
+    private readonly reviver?: Reviver<T>,
+    private readonly options: DecodeOptions = {},
+  ) {
+    const limits = { ...DEFAULT_LIMITS, ...options.limits };
+    this.decoder = new Decoder(options);
+    this.scanner = new ItemScanner(limits);
+    this.maxInputSize = limits.maxInputSize;
+  }
+
+  /**
+   * Adds a chunk to the input.
+   * @param chunk - The next chunk of the input.
+   * @returns The items that were completed by this chunk.
+   */
+  push(chunk: Uint8Array): T[] {
+    const items: T[] = [];
+    let start = 0;
+    while (start < chunk.length) {
+      const { end, status } = this.scanner.scan(chunk, start);
+      const bytes = chunk.subarray(start, end);
+      start = end;
+
+      switch (status) {
+        case 'complete':
+          this.chunks.push(bytes);
+          items.push(this.decodeBufferedItem());
+          break;
+
+        case 'incomplete':
+          // the caller may reuse the memory of the chunk, so the bytes that are kept are copied
+          this.chunks.push(bytes.slice());
+          this.bufferedLength += bytes.length;
+          if (this.bufferedLength > this.maxInputSize) {
+            this.throwBufferedItemError();
+          }
+          break;
+
+        case 'invalid':
+          this.chunks.push(bytes);
+          this.throwBufferedItemError();
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Checks that the input does not end in the middle of an item.
+   */
+  end(): void {
+    if (this.bufferedLength > 0) {
+      this.throwBufferedItemError();
+    }
+  }
+
+  private decodeBufferedItem(): T {
+    const input = concatUint8Arrays(this.chunks);
+    const offset = this.itemOffset;
+    this.chunks = [];
+    this.bufferedLength = 0;
+    this.itemOffset += input.length;
+
+    return this.decoder.decodeFirst(input, this.reviver, offset).value;
+  }
+
+  /**
+   * Throws the error that describes the buffered bytes of an incomplete or invalid item, by decoding them.
+   * The reviver and the tag handlers are not called, since the item is never returned.
+   */
+  private throwBufferedItemError(): never {
+    const input = concatUint8Arrays(this.chunks);
+    new Decoder({
+      ...this.options,
+      tags: [],
+      unknownTags: 'tagged',
+    }).decodeFirst(input, undefined, this.itemOffset);
+
+    // not reachable: the scanned bytes end before the item does, or contain the error
+    throw new UnexpectedEndError(1, {
+      offset: this.itemOffset + input.length,
+      path: '$',
+    });
+  }
+}
+
+/**
+ * Decodes the top-level CBOR items of an input that arrives in chunks of any size, such as a CBOR sequence.
+ * Each item is yielded as soon as its last byte is received.
+ * Throws an {@link UnexpectedEndError} if the input ends in the middle of an item.
+ * See {@link createDecoderStream} to decode a `ReadableStream` instead.
+ * @param chunks - The chunks of the input.
+ * @param reviver - A function that can be used to manipulate the decoded values.
+ * @param options - Options that can be used to customize the decoding.
+ * @returns An async generator of the decoded values.
+ *
+ * @example
+ * ```ts
+ * const chunks = [new Uint8Array([0x01, 0x82, 0x02]), new Uint8Array([0x03])]; // the CBOR sequence "01820203", split in two chunks
+ * for await (const value of decodeStream(chunks)) {
+ *   console.log(value); // logs `1`, then `[2, 3]`
+ * }
+ * ```
+ */
+export async function* decodeStream<T extends CborValue = CborValue>(
+  chunks: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
+  reviver?: Reviver<T>,
+  options?: DecodeOptions,
+): AsyncGenerator<T, void, undefined> {
+  const chunkDecoder = new ChunkDecoder(reviver, options);
+
+  for await (const chunk of chunks) {
+    yield* chunkDecoder.push(chunk);
+  }
+
+  chunkDecoder.end();
+}
+
+/**
+ * Creates a `TransformStream` that decodes a stream of CBOR bytes, split into chunks of any size, into its top-level items.
+ * Each item is emitted as soon as its last byte is received, so the stream can be used to decode
+ * CBOR sequences received over time, for example from a WebSocket or a `fetch` response body.
+ * The stream errors with an {@link UnexpectedEndError} if the input ends in the middle of an item.
+ * `TransformStream` is only needed when a stream is created, so the rest of the library works in runtimes that lack it.
+ * See {@link decodeStream} to decode an iterable of chunks instead.
+ * @param reviver - A function that can be used to manipulate the decoded values.
+ * @param options - Options that can be used to customize the decoding.
+ * @returns A stream that transforms chunks of bytes into decoded values.
+ *
+ * @example
+ * ```ts
+ * const response = await fetch('https://example.com/items.cbor');
+ * const reader = response.body!.pipeThrough(createDecoderStream()).getReader();
+ * const { value } = await reader.read(); // returns the first item of the response body
+ * ```
+ */
+export function createDecoderStream<T extends CborValue = CborValue>(
+  reviver?: Reviver<T>,
+  options?: DecodeOptions,
+): TransformStream<Uint8Array, T> {
+  return new TransformStream(createTransformer(reviver, options));
+}
+
+function createTransformer<T extends CborValue>(
+  reviver?: Reviver<T>,
+  options?: DecodeOptions,
+): Transformer<Uint8Array, T> {
+  const chunkDecoder = new ChunkDecoder(reviver, options);
+
+  return {
+    transform: (chunk, controller) => {
+      chunkDecoder.push(chunk).forEach(item => controller.enqueue(item));
+    },
+    flush: () => {
+      chunkDecoder.end();
+    },
+  };
+}
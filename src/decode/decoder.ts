@@ -0,0 +1,880 @@
+import {
+  CBOR_SELF_DESCRIBED_TAG,
+  CborMajorType,
+  CborMap,
+  CborMinorType,
+  CborNumber,
+  CborSimple,
+  CborSimpleType,
+  CborTag,
+  CborValue,
+  MapKeyOrder,
+  FOUR_BYTES_MAX,
+  EIGHT_BYTES_MAX,
+  TypedArray,
+} from '../cbor-value';
+import {
+  DecodeLimits,
+  bytesToBigInt,
+  CborReader,
+  compareBytes,
+  concatUint8Arrays,
+  compareBytesLengthFirst,
+  DEFAULT_LIMITS,
+  epochDaysToDate,
+  epochSecondsToDate,
+  floatByteLength,
+  isHalfPrecision,
+  isNotNil,
+  isShortestArgument,
+  isSinglePrecision,
+  isTypedArray,
+  isTypedArrayTag,
+  parseDateTime,
+  parseFullDate,
+  readArgument,
+  readFloat,
+  ROOT_PATH,
+  completeErrorPath,
+  prependErrorPathSegment,
+  stringifyMapKey,
+  taggedBytesToTypedArray,
+} from '../util';
+import {
+  DecodingError,
+  DecodingErrorContext,
+  InvalidMapKeyError,
+  InvalidUtf8Error,
+  UnexpectedEndError,
+  UnsupportedTagError,
+} from './decoding-error';
+import { TagHandler, Tagged } from '../tagged';
+import { MultiDimensionalArray } from '../multi-dimensional-array';
+import { Simple } from '../simple';
+
+const textDecoder = new TextDecoder();
+const fatalTextDecoder = new TextDecoder('utf-8', { fatal: true });
+
+const HALF_CANONICAL_NAN = 0x7e00;
+
+type TagDecoder = Required<Pick<TagHandler, 'tag' | 'decode'>>;
+
+function isTagDecoder(handler: TagHandler): handler is TagDecoder {
+  return isNotNil(handler.decode);
+}
+
+function contentToDate(tag: CborNumber, content: CborValue): Date | undefined {
+  const isNumber = typeof content === 'number' || typeof content === 'bigint';
+
+  switch (tag) {
+    case CborTag.DateTimeString:
+      return typeof content === 'string' ? parseDateTime(content) : undefined;
+    case CborTag.EpochDateTime:
+      return isNumber ? epochSecondsToDate(Number(content)) : undefined;
+    case CborTag.EpochDate:
+      return isNumber ? epochDaysToDate(Number(content)) : undefined;
+    case CborTag.FullDateString:
+      return typeof content === 'string' ? parseFullDate(content) : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function contentToBytes(content: CborValue): Uint8Array | undefined {
+  if (content instanceof Uint8Array) {
+    return content;
+  }
+
+  return content instanceof ArrayBuffer ? new Uint8Array(content) : undefined;
+}
+
+function contentToMultiDimensionalArray(
+  content: CborValue,
+): MultiDimensionalArray | undefined {
+  if (!Array.isArray(content) || content.length !== 2) {
+    return undefined;
+  }
+
+  const [dimensions, elements] = content;
+  if (!Array.isArray(dimensions)) {
+    return undefined;
+  }
+
+  // the elements are an array, a typed array, or a byte string that holds uint8 elements
+  const arrayElements =
+    Array.isArray(elements) || isTypedArray(elements)
+      ? elements
+      : contentToBytes(elements);
+
+  return arrayElements && new MultiDimensionalArray(dimensions, arrayElements);
+}
+
+function isBignumTag(tag: CborNumber): boolean {
+  return tag === CborTag.PositiveBignum || tag === CborTag.NegativeBignum;
+}
+
+function normalizeTag(tag: CborNumber): CborNumber {
+  return typeof tag === 'bigint' && tag <= Number.MAX_SAFE_INTEGER
+    ? Number(tag)
+    : tag;
+}
+
+/**
+ * How to decode tags that have no {@link TagHandler}.
+ * - `throw`: throw a {@link DecodingError}.
+ * - `tagged`: return a {@link Tagged} with the tag number and the decoded content.
+ */
+export type UnknownTags = 'throw' | 'tagged';
+
+/**
+ * How to decode byte strings.
+ * - `copy`: a `Uint8Array` that holds a copy of the bytes.
+ * - `view`: a `Uint8Array` view into the input, without copying the bytes. The decoded value shares memory
+ *   with the input: the input is kept alive as long as the value is, and changing one changes the other.
+ *   Indefinite-length byte strings are always copied, since their chunks are not contiguous in the input.
+ * - `arraybuffer`: an `ArrayBuffer` that holds a copy of the bytes.
+ */
+export type ByteStrings = 'copy' | 'view' | 'arraybuffer';
+
+/**
+ * Options that can be used to customize the decoding.
+ * See {@link Decoder} for more information.
+ */
+export interface DecodeOptions {
+  /**
+   * Handlers used to decode tagged items. Handlers without a `decode` function are ignored.
+   * Handlers take precedence over the tags that are decoded natively, such as the date tags 0 and 1.
+   */
+  tags?: TagHandler[];
+  /**
+   * How to decode tags that have no handler.
+   * The self-described tag (55799) is always supported.
+   * @default 'throw'
+   */
+  unknownTags?: UnknownTags;
+  /**
+   * Rejects input that is not deterministically encoded, as specified by RFC 8949 §4.2:
+   * integers, lengths and floats that don't use their shortest form, indefinite-length items,
+   * non-canonical NaNs, and map keys that are duplicated or not sorted (see `mapKeyOrder`).
+   * @see {@link https://www.rfc-editor.org/rfc/rfc8949.html#section-4.2}
+   * @default false
+   */
+  strict?: boolean;
+  /**
+   * Rejects text strings that are not valid UTF-8 with an {@link InvalidUtf8Error},
+   * instead of replacing the invalid bytes with U+FFFD.
+   * Each chunk of an indefinite-length text string must be valid UTF-8 on its own.
+   * @default the value of `strict`
+   */
+  fatal?: boolean;
+  /**
+   * The expected order of map keys in strict mode. Ignored otherwise.
+   * @default 'bytewise'
+   */
+  mapKeyOrder?: MapKeyOrder;
+  /**
+   * Decodes CBOR maps into JavaScript `Map` instances instead of plain objects,
+   * which preserves keys of any type, such as integers, byte strings or arrays.
+   * Without this option, maps with keys that are not text strings are rejected.
+   * @default false
+   */
+  useMaps?: boolean;
+  /**
+   * How to decode byte strings. Use `view` to avoid copying large byte strings.
+   * @default 'copy'
+   */
+  byteStrings?: ByteStrings;
+  /**
+   * Limits for untrusted input. Limits that are not set use their default value.
+   */
+  limits?: DecodeLimits;
+  /**
+   * Decodes the RFC 8943 date tags 100 (days since the epoch) and 1004 (RFC 3339 full-date string)
+   * into `Date` values at midnight UTC. Without this option, they are decoded like other unknown tags.
+   * The date tags 0 and 1 are always decoded into `Date` values.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc8943.html}
+   * @default false
+   */
+  fullDates?: boolean;
+  /**
+   * Decodes bignums (tags 2 and 3) whose value fits in a CBOR integer like that integer would be decoded:
+   * into a number if it fits in 4 bytes, and into a bigint otherwise.
+   * Without this option, bignums are always decoded into bigints.
+   * @default false
+   */
+  normalizeBignums?: boolean;
+}
+
+/**
+ * A function that can be used to manipulate the decoded value.
+ * See {@link decode} for more information.
+ * @param value - The value to manipulate.
+ * @param key - The current key in a map, or the current stringified index in an array.
+ * @returns The manipulated value.
+ */
+export type Reviver<K extends CborValue = CborValue> = (
+  value: K,
+  key?: K extends CborValue ? string : keyof K,
+) => [K] extends [never] ? CborValue : K;
+
+/**
+ * The result of decoding the first CBOR item of a byte array.
+ * See {@link Decoder.decodeFirst} for more information.
+ */
+export interface DecodeResult<T extends CborValue = CborValue> {
+  /**
+   * The decoded value.
+   */
+  value: T;
+  /**
+   * The number of bytes the value was encoded with.
+   */
+  bytesRead: number;
+}
+
+/**
+ * A CBOR decoder that owns its input state and options.
+ * Decoders are reentrant: a {@link Reviver} or a {@link TagHandler} can safely decode other values,
+ * with the same decoder or a different one, while a decoding is in progress.
+ *
+ * @example
+ * ```ts
+ * const decoder = new Decoder({ unknownTags: 'tagged' });
+ * decoder.decode(bytes); // returns `Tagged { tag: 6, value: 1 }` for the bytes "C601"
+ * ```
+ */
+export class Decoder extends CborReader {
+  private baseOffset = 0;
+  private decoding = false;
+  private readonly tagDecoders = new Map<CborNumber, TagDecoder>();
+  private readonly unknownTags: UnknownTags;
+  private readonly strict: boolean;
+  private readonly useMaps: boolean;
+  private readonly byteStrings: ByteStrings;
+  private readonly fullDates: boolean;
+  private readonly normalizeBignums: boolean;
+  private readonly compareKeys: (a: Uint8Array, b: Uint8Array) => number;
+
+  /**
+   * @param options - Options that can be used to customize the decoding.
+   */
+  constructor(private readonly options: DecodeOptions = {}) {
+    super(
+      { ...DEFAULT_LIMITS, ...options.limits },
+      (options.fatal ?? options.strict ?? false)
+        ? fatalTextDecoder
+        : textDecoder,
+    );
+    options.tags?.forEach(handler => {
+      if (isTagDecoder(handler)) {
+        this.tagDecoders.set(normalizeTag(handler.tag), handler);
+      }
+    });
+    this.unknownTags = options.unknownTags ?? 'throw';
+    this.strict = options.strict ?? false;
+    this.useMaps = options.useMaps ?? false;
+    this.byteStrings = options.byteStrings ?? 'copy';
+    this.fullDates = options.fullDates ?? false;
+    this.normalizeBignums = options.normalizeBignums ?? false;
+    this.compareKeys =
+      options.mapKeyOrder === 'length-first'
+        ? compareBytesLengthFirst
+        : compareBytes;
+  }
+
+  /**
+   * Decodes a CBOR byte array into a value.
+   * The input must contain exactly one item: trailing bytes are rejected.
+   * Use {@link Decoder.decodeFirst} to decode an item that is followed by other data.
+   * @param input - The CBOR byte array to decode.
+   * @param reviver - A function that can be used to manipulate the decoded value.
+   * @returns The decoded value.
+   */
+  decode<T extends CborValue = CborValue>(
+    input: Uint8Array,
+    reviver?: Reviver<T>,
+  ): T {
+    const { value, bytesRead } = this.decodeFirst(input, reviver);
+
+    if (bytesRead < input.length) {
+      throw new DecodingError(
+        `Unexpected trailing bytes: the item ends at offset ${bytesRead}, but the input is ${input.length} bytes long`,
+        { offset: bytesRead, path: ROOT_PATH },
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Decodes the first CBOR item of a byte array, ignoring the bytes that follow it.
+   * Throws an {@link UnexpectedEndError} if the input ends before the item is complete.
+   * @param input - The CBOR byte array to decode.
+   * @param reviver - A function that can be used to manipulate the decoded value.
+   * @param baseOffset - The offset of the input in a larger input, such as a CBOR sequence, that is added to the offsets reported in errors.
+   * @returns The decoded value and the number of bytes it was encoded with.
+   */
+  decodeFirst<T extends CborValue = CborValue>(
+    input: Uint8Array,
+    reviver?: Reviver<T>,
+    baseOffset = 0,
+  ): DecodeResult<T> {
+    if (this.decoding) {
+      return new Decoder(this.options).decodeFirst(input, reviver, baseOffset);
+    }
+
+    this.decoding = true;
+    this.cborBytes = input;
+    this.bytesOffset = 0;
+    this.baseOffset = baseOffset;
+    this.depth = 0;
+    this.majorType = undefined;
+
+    try {
+      this.checkLimit('maxInputSize', input.length);
+      const decodedItem = this.decodeItem(reviver as Reviver | undefined) as T;
+      return {
+        value: (reviver?.(decodedItem as T) ?? decodedItem) as T,
+        bytesRead: this.bytesOffset,
+      };
+    } catch (error) {
+      if (error instanceof DecodingError) {
+        completeErrorPath(error);
+      }
+      throw error;
+    } finally {
+      this.decoding = false;
+      this.cborBytes = new Uint8Array();
+    }
+  }
+
+  /**
+   * Decodes a CBOR sequence: consecutive CBOR items without an enclosing array.
+   * An empty input is an empty sequence.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc8742.html}
+   * @param input - The CBOR sequence to decode.
+   * @param reviver - A function that can be used to manipulate the decoded values.
+   * @returns The decoded values.
+   */
+  decodeSequence<T extends CborValue = CborValue>(
+    input: Uint8Array,
+    reviver?: Reviver<T>,
+  ): T[] {
+    const values: T[] = [];
+
+    let offset = 0;
+    while (offset < input.length) {
+      const { value, bytesRead } = this.decodeFirst(
+        input.subarray(offset),
+        reviver,
+        offset,
+      );
+      values.push(value);
+      offset += bytesRead;
+    }
+
+    return values;
+  }
+
+  private decodeItem(reviver?: Reviver): CborValue {
+    const [majorType, info] = this.readHead();
+
+    switch (majorType) {
+      case CborMajorType.UnsignedInteger:
+        return this.decodeUnsignedInteger(info);
+
+      case CborMajorType.NegativeInteger:
+        return this.decodeNegativeInteger(info);
+
+      case CborMajorType.ByteString:
+        return this.decodeByteString(info);
+
+      case CborMajorType.TextString:
+        return this.decodeTextString(info);
+
+      case CborMajorType.Array:
+        return this.decodeArray(info, reviver);
+
+      case CborMajorType.Map:
+        return this.decodeMap(info, reviver);
+
+      case CborMajorType.Tag:
+        return this.decodeTag(info, reviver);
+
+      case CborMajorType.Simple:
+        return this.decodeSimple(info);
+    }
+
+    throw new DecodingError(
+      `Unsupported major type: ${majorType}`,
+      this.errorContext(),
+    );
+  }
+
+  private decodeArray(info: number, reviver?: Reviver): CborValue[] {
+    const arrayLength = this.decodeLength(info);
+    this.enterNestedItem();
+
+    if (arrayLength === Infinity) {
+      const values: CborValue[] = [];
+      while (!this.readBreak()) {
+        const decodedItem = this.decodeNestedItem(values.length, reviver);
+        this.checkLimit('maxArrayLength', values.length + 1);
+        values.push(reviver?.(decodedItem) ?? decodedItem);
+      }
+
+      this.depth--;
+      return values;
+    }
+
+    this.checkLimit('maxArrayLength', arrayLength);
+    // every item takes at least one byte, so the input must be long enough before the array is allocated
+    this.checkAvailableBytes(Number(arrayLength));
+
+    const values = new Array<CborValue>(Number(arrayLength));
+    for (let i = 0; i < arrayLength; i++) {
+      const decodedItem = this.decodeNestedItem(i, reviver);
+      values[i] = reviver?.(decodedItem) ?? decodedItem;
+    }
+
+    this.depth--;
+    return values;
+  }
+
+  /**
+   * Decodes an array item or a map value, with the index or key it is found at.
+   */
+  private decodeNestedItem(
+    keyOrIndex: CborValue,
+    reviver?: Reviver,
+  ): CborValue {
+    try {
+      return this.decodeItem(reviver);
+    } catch (error) {
+      if (error instanceof DecodingError) {
+        prependErrorPathSegment(error, keyOrIndex);
+      }
+      throw error;
+    }
+  }
+
+  private decodeSimple(info: number): CborSimple | Simple | number {
+    if (info < CborSimpleType.False) {
+      return new Simple(info);
+    }
+
+    switch (info) {
+      case CborSimpleType.False: {
+        return false;
+      }
+      case CborSimpleType.True: {
+        return true;
+      }
+      case CborSimpleType.Null: {
+        return null;
+      }
+      case CborSimpleType.Undefined: {
+        return undefined;
+      }
+      case CborSimpleType.Break: {
+        throw new DecodingError(
+          'Unexpected break outside of an indefinite length item',
+          this.errorContext(),
+        );
+      }
+      case CborMinorType.OneByte: {
+        return new Simple(this.readExtendedSimple());
+      }
+      case CborMinorType.TwoBytes:
+      case CborMinorType.FourBytes:
+      case CborMinorType.EightBytes: {
+        return this.decodeFloat(info);
+      }
+    }
+
+    throw new DecodingError(
+      `Unrecognized simple type: ${info.toString(2)}`,
+      this.errorContext(),
+    );
+  }
+
+  private decodeFloat(info: number): number {
+    const byteLength = floatByteLength(info);
+    this.checkAvailableBytes(byteLength);
+    const value = readFloat(this.cborBytes, this.bytesOffset, info);
+
+    if (this.strict) {
+      // the bits are only needed to check the encoding of NaN, and reading them allocates for doubles
+      const bits = readArgument(this.cborBytes, this.bytesOffset, info);
+      this.checkShortestFloat(value, bits, info);
+    }
+
+    this.bytesOffset += byteLength;
+    return value;
+  }
+
+  private checkShortestFloat(
+    value: number,
+    bits: CborNumber,
+    info: number,
+  ): void {
+    switch (info) {
+      case CborMinorType.TwoBytes:
+        if (Number.isNaN(value) && bits !== HALF_CANONICAL_NAN) {
+          throw new DecodingError(
+            'Non-deterministic encoding: NaN must be encoded as 0xf97e00',
+            this.errorContext(),
+          );
+        }
+        return;
+
+      case CborMinorType.FourBytes:
+        if (isHalfPrecision(value)) {
+          throw new DecodingError(
+            `Non-deterministic encoding: ${value} must be encoded in half precision`,
+            this.errorContext(),
+          );
+        }
+        return;
+
+      default:
+        if (isSinglePrecision(value)) {
+          throw new DecodingError(
+            `Non-deterministic encoding: ${value} must be encoded in ${isHalfPrecision(value) ? 'half' : 'single'} precision`,
+            this.errorContext(),
+          );
+        }
+    }
+  }
+
+  private decodeMap(
+    info: number,
+    reviver?: Reviver,
+  ): CborMap | Map<CborValue, CborValue> {
+    const mapLength = this.decodeLength(info);
+    this.enterNestedItem();
+    if (mapLength !== Infinity) {
+      this.checkLimit('maxMapSize', mapLength);
+    }
+
+    const map: CborMap | Map<CborValue, CborValue> = this.useMaps
+      ? new Map()
+      : {};
+
+    let previousKey: Uint8Array | undefined;
+    for (let i = 0; i < mapLength; i++) {
+      if (this.readBreak()) {
+        if (mapLength === Infinity) {
+          break;
+        }
+        throw new DecodingError(
+          'Unexpected break in a definite length map',
+          this.errorContext(),
+        );
+      }
+
+      const keyOffset = this.bytesOffset;
+      const key = this.decodeMapKey();
+
+      if (mapLength === Infinity) {
+        this.checkLimit('maxMapSize', i + 1);
+      }
+
+      if (this.strict) {
+        previousKey = this.checkMapKeyOrder(keyOffset, previousKey);
+      }
+
+      const decodedItem = this.decodeNestedItem(key, reviver);
+      const value = reviver?.(decodedItem, stringifyMapKey(key)) ?? decodedItem;
+      if (map instanceof Map) {
+        map.set(key, value);
+      } else {
+        map[key] = value;
+      }
+    }
+
+    this.depth--;
+    return map;
+  }
+
+  private decodeMapKey(): CborValue {
+    if (this.useMaps) {
+      return this.decodeItem();
+    }
+
+    const [majorType, info] = this.readHead();
+
+    if (majorType === CborMajorType.TextString) {
+      return this.decodeTextString(info);
+    }
+
+    throw new InvalidMapKeyError(this.errorContext());
+  }
+
+  private checkMapKeyOrder(
+    keyOffset: number,
+    previousKey?: Uint8Array,
+  ): Uint8Array {
+    const encodedKey = this.cborBytes.subarray(keyOffset, this.bytesOffset);
+
+    if (previousKey) {
+      const comparison = this.compareKeys(previousKey, encodedKey);
+      if (comparison === 0) {
+        throw new DecodingError(
+          'Non-deterministic encoding: duplicate map key',
+          this.errorContext(),
+        );
+      }
+      if (comparison > 0) {
+        throw new DecodingError(
+          'Non-deterministic encoding: map keys are not sorted',
+          this.errorContext(),
+        );
+      }
+    }
+
+    return encodedKey;
+  }
+
+  protected errorContext(): DecodingErrorContext {
+    return {
+      offset: this.baseOffset + this.bytesOffset,
+      majorType: this.majorType,
+      path: ROOT_PATH,
+    };
+  }
+
+  /**
+   * Decodes the length of a string, an array or a map, which is `Infinity` for indefinite length items.
+   */
+  private decodeLength(info: number): CborNumber {
+    if (info === CborMinorType.Indefinite) {
+      if (this.strict) {
+        throw new DecodingError(
+          'Non-deterministic encoding: indefinite length items are not allowed',
+          this.errorContext(),
+        );
+      }
+      return Infinity;
+    }
+
+    return this.decodeUnsignedInteger(info);
+  }
+
+  private decodeUnsignedInteger(info: number): CborNumber {
+    const value = this.readHeadArgument(info);
+
+    if (this.strict && !isShortestArgument(value, info)) {
+      throw new DecodingError(
+        `Non-deterministic encoding: ${value} is not encoded in its shortest form`,
+        this.errorContext(),
+      );
+    }
+
+    return value;
+  }
+
+  private decodeNegativeInteger(info: number): CborNumber {
+    const value = this.decodeUnsignedInteger(info);
+    const negativeValue = typeof value === 'number' ? -1 - value : -1n - value;
+
+    return negativeValue;
+  }
+
+  private decodeByteString(info: number): Uint8Array | ArrayBuffer {
+    const byteLength = this.decodeLength(info);
+
+    if (byteLength === Infinity) {
+      const bytes = concatUint8Arrays(
+        this.readChunks(
+          CborMajorType.ByteString,
+          chunkInfo => this.decodeUnsignedInteger(chunkInfo),
+          chunkLength => this.readBytes(chunkLength),
+        ),
+      );
+      return this.byteStrings === 'arraybuffer' ? bytes.buffer : bytes;
+    }
+
+    this.checkLimit('maxStringLength', byteLength);
+    const bytes = this.readBytes(byteLength);
+
+    switch (this.byteStrings) {
+      case 'view':
+        return bytes;
+
+      case 'arraybuffer':
+        return bytes.slice().buffer;
+
+      default:
+        return bytes.slice();
+    }
+  }
+
+  private decodeTextString(info: number): string {
+    const byteLength = this.decodeLength(info);
+
+    if (byteLength === Infinity) {
+      return this.readChunks(
+        CborMajorType.TextString,
+        chunkInfo => this.decodeUnsignedInteger(chunkInfo),
+        chunkLength => this.decodeUtf8(this.readBytes(chunkLength)),
+      ).join('');
+    }
+
+    this.checkLimit('maxStringLength', byteLength);
+    return this.decodeUtf8(this.readBytes(byteLength));
+  }
+
+  private decodeTag(info: number, reviver?: Reviver): CborValue {
+    const tag = normalizeTag(this.decodeUnsignedInteger(info));
+
+    const handler = this.tagDecoders.get(tag);
+    const isNativeTag = !handler && this.isNativeTag(tag);
+    if (
+      !handler &&
+      !isNativeTag &&
+      tag !== CBOR_SELF_DESCRIBED_TAG &&
+      this.unknownTags !== 'tagged'
+    ) {
+      throw new UnsupportedTagError(tag, this.errorContext());
+    }
+
+    this.enterNestedItem();
+    const content = this.decodeItem(reviver);
+    this.depth--;
+
+    if (handler) {
+      return handler.decode(content);
+    }
+
+    if (isNativeTag) {
+      return this.decodeNativeTag(tag, content);
+    }
+
+    if (tag === CBOR_SELF_DESCRIBED_TAG) {
+      return content;
+    }
+
+    return new Tagged(tag, content);
+  }
+
+  private isNativeTag(tag: CborNumber): boolean {
+    return (
+      isBignumTag(tag) ||
+      isTypedArrayTag(tag) ||
+      tag === CborTag.MultiDimensionalArray ||
+      tag === CborTag.Set ||
+      this.isDateTag(tag)
+    );
+  }
+
+  private decodeNativeTag(tag: CborNumber, content: CborValue): CborValue {
+    if (isBignumTag(tag)) {
+      return this.decodeBignum(tag, content);
+    }
+
+    if (isTypedArrayTag(tag)) {
+      return this.decodeTypedArray(tag, content);
+    }
+
+    if (tag === CborTag.MultiDimensionalArray) {
+      return this.decodeMultiDimensionalArray(content);
+    }
+
+    if (tag === CborTag.Set) {
+      return this.decodeSet(content);
+    }
+
+    return this.decodeDate(tag, content);
+  }
+
+  private isDateTag(tag: CborNumber): boolean {
+    return (
+      tag === CborTag.DateTimeString ||
+      tag === CborTag.EpochDateTime ||
+      (this.fullDates &&
+        (tag === CborTag.EpochDate || tag === CborTag.FullDateString))
+    );
+  }
+
+  private decodeDate(tag: CborNumber, content: CborValue): Date {
+    const date = contentToDate(tag, content);
+    if (!date) {
+      throw new DecodingError(
+        `Invalid content for date tag ${tag}`,
+        this.errorContext(),
+      );
+    }
+
+    return date;
+  }
+
+  private decodeBignum(tag: CborNumber, content: CborValue): CborNumber {
+    const bytes = contentToBytes(content);
+    if (!bytes) {
+      throw new DecodingError(
+        `Invalid content for bignum tag ${tag}`,
+        this.errorContext(),
+      );
+    }
+    const unsignedValue = bytesToBigInt(bytes);
+    const value =
+      tag === CborTag.NegativeBignum ? -1n - unsignedValue : unsignedValue;
+
+    if (this.strict && bytes[0] === 0) {
+      throw new DecodingError(
+        'Non-deterministic encoding: bignums must not have leading zeros',
+        this.errorContext(),
+      );
+    }
+
+    if (this.strict && unsignedValue <= EIGHT_BYTES_MAX) {
+      throw new DecodingError(
+        `Non-deterministic encoding: bignum ${value} must be encoded as an integer`,
+        this.errorContext(),
+      );
+    }
+
+    return this.normalizeBignums && unsignedValue <= FOUR_BYTES_MAX
+      ? Number(value)
+      : value;
+  }
+
+  private decodeTypedArray(tag: CborNumber, content: CborValue): TypedArray {
+    const bytes = contentToBytes(content);
+    const typedArray = bytes && taggedBytesToTypedArray(tag, bytes);
+    if (!typedArray) {
+      throw new DecodingError(
+        `Invalid content for typed array tag ${tag}`,
+        this.errorContext(),
+      );
+    }
+
+    return typedArray;
+  }
+
+  private decodeMultiDimensionalArray(
+    content: CborValue,
+  ): MultiDimensionalArray {
+    const array = contentToMultiDimensionalArray(content);
+    if (!array?.hasValidDimensions()) {
+      throw new DecodingError(
+        `Invalid content for multi-dimensional array tag ${CborTag.MultiDimensionalArray}`,
+        this.errorContext(),
+      );
+    }
+
+    return array;
+  }
+
+  private decodeSet(content: CborValue): Set<CborValue> {
+    if (!Array.isArray(content)) {
+      throw new DecodingError(
+        `Invalid content for set tag ${CborTag.Set}`,
+        this.errorContext(),
+      );
+    }
+
+    return new Set(content);
+  }
+}
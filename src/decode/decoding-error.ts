@@ -1,6 +1,154 @@
+import type { CborMajorType, CborNumber } from '../cbor-value';
+import type { DecodeLimits } from '../util';
+
+/**
+ * Where a {@link DecodingError} occurred in the input.
+ */
+export interface DecodingErrorContext {
+  /**
+   * The offset in the input where the error was detected.
+   */
+  offset: number;
+  /**
+   * The major type of the last item header that was read, if any.
+   */
+  majorType?: CborMajorType;
+  /**
+   * The JSON path of the item being decoded, such as `$.foo[3].bar`.
+   */
+  path: string;
+}
+
+/**
+ * The base class of the errors thrown while decoding.
+ * The subclasses identify specific failures, so that they can be handled without parsing the message.
+ * The `offset`, `majorType` and `path` of an error tell where it occurred in the input.
+ */
 export class DecodingError extends Error {
-  constructor(message: string) {
+  /**
+   * The offset in the input where the error was detected.
+   */
+  public readonly offset?: number;
+  /**
+   * The major type of the last item header that was read, if any.
+   */
+  public readonly majorType?: CborMajorType;
+  /**
+   * The JSON path of the item being decoded, such as `$.foo[3].bar`.
+   */
+  public path?: string;
+
+  /**
+   * @param message - The error message.
+   * @param context - Where the error occurred in the input.
+   */
+  constructor(message: string, context?: DecodingErrorContext) {
     super(message);
     this.name = 'DecodingError';
+    this.offset = context?.offset;
+    this.majorType = context?.majorType;
+    this.path = context?.path;
+  }
+}
+
+/**
+ * Thrown when the input ends before the item being decoded is complete.
+ */
+export class UnexpectedEndError extends DecodingError {
+  /**
+   * @param expectedBytes - The number of bytes that were expected at the offset.
+   * @param context - Where the error occurred in the input.
+   */
+  constructor(
+    public readonly expectedBytes: number,
+    context: DecodingErrorContext,
+  ) {
+    super(
+      unexpectedEndMessage(expectedBytes, context.offset, context.path),
+      context,
+    );
+    this.name = 'UnexpectedEndError';
+    // the path grows as the error unwinds through the items that contain the one that failed
+    defineMessage(this, () =>
+      unexpectedEndMessage(this.expectedBytes, this.offset, this.path),
+    );
+  }
+}
+
+/**
+ * Formats the message of an error when it is read, for the messages that include the path.
+ */
+function defineMessage(error: Error, formatMessage: () => string): void {
+  Object.defineProperty(error, 'message', { get: formatMessage });
+}
+
+function unexpectedEndMessage(
+  expectedBytes: number,
+  offset?: number,
+  path?: string,
+): string {
+  return `Unexpected end of input: expected ${expectedBytes} ${expectedBytes === 1 ? 'byte' : 'bytes'} at offset ${offset}, in ${path}`;
+}
+
+/**
+ * Thrown when the input exceeds one of the {@link DecodeLimits}.
+ */
+export class LimitExceededError extends DecodingError {
+  /**
+   * @param limit - The name of the exceeded limit.
+   * @param max - The value of the exceeded limit.
+   * @param context - Where the error occurred in the input.
+   */
+  constructor(
+    public readonly limit: keyof DecodeLimits,
+    public readonly max: number,
+    context: DecodingErrorContext,
+  ) {
+    super(`Limit exceeded: ${limit} is ${max}`, context);
+    this.name = 'LimitExceededError';
+  }
+}
+
+/**
+ * Thrown when the input contains a tag that has no {@link TagHandler},
+ * unless the `unknownTags` decoding option is set to `'tagged'`.
+ */
+export class UnsupportedTagError extends DecodingError {
+  /**
+   * @param tag - The unsupported tag number.
+   * @param context - Where the error occurred in the input.
+   */
+  constructor(
+    public readonly tag: CborNumber,
+    context: DecodingErrorContext,
+  ) {
+    super(`Unsupported tag: ${tag}.`, context);
+    this.name = 'UnsupportedTagError';
+  }
+}
+
+/**
+ * Thrown when a text string is not valid UTF-8 and the `fatal` decoding option is set.
+ */
+export class InvalidUtf8Error extends DecodingError {
+  /**
+   * @param context - Where the error occurred in the input.
+   */
+  constructor(context: DecodingErrorContext) {
+    super('Text strings must be valid UTF-8', context);
+    this.name = 'InvalidUtf8Error';
+  }
+}
+
+/**
+ * Thrown when a map key is not a text string and the `useMaps` decoding option is not set.
+ */
+export class InvalidMapKeyError extends DecodingError {
+  /**
+   * @param context - Where the error occurred in the input.
+   */
+  constructor(context: DecodingErrorContext) {
+    super('Map keys must be text strings', context);
+    this.name = 'InvalidMapKeyError';
   }
 }
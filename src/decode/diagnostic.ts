@@ -0,0 +1,432 @@
+import {
+  CborMajorType,
+  CborMinorType,
+  CborNumber,
+  CborSimpleType,
+  CborValue,
+} from '../cbor-value';
+import { encode } from '../encode/encode';
+import {
+  DEFAULT_LIMITS,
+  DecodeLimits,
+  bytesToHex,
+  CborReader,
+  floatByteLength,
+  formatPath,
+  isShortestArgument,
+  readFloat,
+} from '../util';
+import { DecodingError, DecodingErrorContext } from './decoding-error';
+
+const fatalTextDecoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Options that can be used to customize the diagnostic notation.
+ */
+export interface DiagnosticOptions {
+  /**
+   * The number of spaces used to indent the items of arrays and maps, which are then written one per line.
+   * @default 0, everything is written on a single line
+   */
+  indent?: number;
+  /**
+   * Limits that protect the printer against untrusted input. See {@link DecodeLimits}.
+   */
+  limits?: DecodeLimits;
+}
+
+interface Argument {
+  value: CborNumber;
+  /**
+   * The encoding indicator of an argument that is not encoded in its shortest form, such as `_0`, or an empty string.
+   */
+  indicator: string;
+}
+
+interface DefiniteString {
+  bytes: Uint8Array;
+  indicator: string;
+}
+
+/**
+ * Converts a CBOR byte array into extended diagnostic notation.
+ * The notation is read directly from the bytes, so it shows how the items are encoded:
+ * - byte strings are written in hex, such as `h'0102'`;
+ * - indefinite-length items are marked with `_`, such as `[_ 1, 2]` or `(_ "strea", "ming")`;
+ * - integers, lengths and tags that are not encoded in their shortest form have an encoding indicator, such as `23_0`;
+ * - floats have a width suffix: `_1` for half, `_2` for single and `_3` for double precision;
+ * - tags are written as `tag(content)`, whether or not they can be decoded, and unassigned simple values as `simple(n)`.
+ * See {@link valueToDiagnostic} to print a value instead.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8949.html#section-8}
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8610.html#appendix-G}
+ * @param bytes - The CBOR byte array to print.
+ * @param options - Options that can be used to customize the notation.
+ * @returns The diagnostic notation of the item.
+ *
+ * @example
+ * ```ts
+ * const bytes = ...; // Uint8Array corresponding to "9F1817C11A514B67B0FF" in hex
+ * toDiagnostic(bytes); // returns `[_ 23_0, 1(1363896240)]`
+ * ```
+ */
+export function toDiagnostic(
+  bytes: Uint8Array,
+  options: DiagnosticOptions = {},
+): string {
+  return new DiagnosticPrinter(bytes, options).print();
+}
+
+/**
+ * Encodes a value with the default options, and converts its encoding into extended diagnostic notation.
+ * See {@link toDiagnostic} for more information.
+ * @param value - The value to print. A `Uint8Array` is printed as a byte string.
+ * @param options - Options that can be used to customize the notation.
+ * @returns The diagnostic notation of the encoded value.
+ *
+ * @example
+ * ```ts
+ * valueToDiagnostic({ a: [1, 1.5], b: new Uint8Array([1, 2]) }); // returns `{"a": [1, 1.5_1], "b": h'0102'}`
+ * valueToDiagnostic([1, [2]], { indent: 2 }); // returns "[\n  1,\n  [\n    2\n  ]\n]"
+ * ```
+ */
+export function valueToDiagnostic<T = any>(
+  value: CborValue<T>,
+  options: DiagnosticOptions = {},
+): string {
+  return toDiagnostic(encode(value), options);
+}
+
+class DiagnosticPrinter extends CborReader {
+  /**
+   * The number of arrays and maps that contain the item being printed, including the maps it is a key of.
+   */
+  private indentLevel = 0;
+  private path: CborValue[] = [];
+  private readonly indent: string;
+
+  constructor(cborBytes: Uint8Array, options: DiagnosticOptions) {
+    super({ ...DEFAULT_LIMITS, ...options.limits }, fatalTextDecoder);
+    this.cborBytes = cborBytes;
+    this.indent = ' '.repeat(options.indent ?? 0);
+  }
+
+  print(): string {
+    this.checkLimit('maxInputSize', this.cborBytes.length);
+    const diagnostic = this.printItem();
+
+    if (this.bytesOffset < this.cborBytes.length) {
+      throw new DecodingError(
+        `Unexpected trailing bytes: the item ends at offset ${this.bytesOffset}, but the input is ${this.cborBytes.length} bytes long`,
+        { offset: this.bytesOffset, path: '$' },
+      );
+    }
+
+    return diagnostic;
+  }
+
+  private printItem(): string {
+    const [majorType, info] = this.readHead();
+    return this.printItemWithHead(majorType, info);
+  }
+
+  private printItemWithHead(majorType: CborMajorType, info: number): string {
+    switch (majorType) {
+      case CborMajorType.UnsignedInteger:
+      case CborMajorType.NegativeInteger: {
+        const { value, indicator } = this.readInteger(majorType, info);
+        return `${value}${indicator}`;
+      }
+
+      case CborMajorType.ByteString:
+      case CborMajorType.TextString:
+        return this.printString(majorType, info);
+
+      case CborMajorType.Array:
+        return this.printArray(info);
+
+      case CborMajorType.Map:
+        return this.printMap(info);
+
+      case CborMajorType.Tag:
+        return this.printTag(info);
+
+      case CborMajorType.Simple:
+        return this.printSimple(info);
+    }
+
+    throw new DecodingError(
+      `Unsupported major type: ${majorType}`,
+      this.errorContext(),
+    );
+  }
+
+  private readArgumentWithIndicator(info: number): Argument {
+    const value = this.readHeadArgument(info);
+    return { value, indicator: argumentIndicator(value, info) };
+  }
+
+  private readInteger(majorType: CborMajorType, info: number): Argument {
+    const { value, indicator } = this.readArgumentWithIndicator(info);
+    if (majorType === CborMajorType.UnsignedInteger) {
+      return { value, indicator };
+    }
+
+    return {
+      value: typeof value === 'number' ? -1 - value : -1n - value,
+      indicator,
+    };
+  }
+
+  private printString(majorType: CborMajorType, info: number): string {
+    if (info !== CborMinorType.Indefinite) {
+      return this.printDefiniteString(majorType, info);
+    }
+
+    const chunks = this.readChunks(
+      majorType,
+      chunkInfo => this.readHeadArgument(chunkInfo),
+      (chunkLength, chunkInfo) =>
+        this.formatString(majorType, {
+          bytes: this.readBytes(chunkLength),
+          indicator: argumentIndicator(chunkLength, chunkInfo),
+        }),
+    );
+
+    if (chunks.length === 0) {
+      return majorType === CborMajorType.ByteString ? "''_" : '""_';
+    }
+
+    return this.formatContainer('(', ')', '_', chunks);
+  }
+
+  private printDefiniteString(majorType: CborMajorType, info: number): string {
+    return this.formatString(majorType, this.readDefiniteString(info));
+  }
+
+  private readDefiniteString(info: number): DefiniteString {
+    const { value: byteLength, indicator } =
+      this.readArgumentWithIndicator(info);
+    this.checkLimit('maxStringLength', byteLength);
+    return { bytes: this.readBytes(byteLength), indicator };
+  }
+
+  private formatString(
+    majorType: CborMajorType,
+    { bytes, indicator }: DefiniteString,
+  ): string {
+    if (majorType === CborMajorType.ByteString) {
+      return `h'${bytesToHex(bytes)}'${indicator}`;
+    }
+
+    return `${JSON.stringify(this.decodeUtf8(bytes))}${indicator}`;
+  }
+
+  private printArray(info: number): string {
+    this.enterNestedItem();
+    const items: string[] = [];
+    let marker = '_';
+
+    this.path.push(0);
+    this.indentLevel++;
+    if (info === CborMinorType.Indefinite) {
+      while (!this.readBreak()) {
+        this.checkLimit('maxArrayLength', items.length + 1);
+        this.path[this.path.length - 1] = items.length;
+        items.push(this.printItem());
+      }
+    } else {
+      const { value: arrayLength, indicator } =
+        this.readArgumentWithIndicator(info);
+      this.checkLimit('maxArrayLength', arrayLength);
+      marker = indicator;
+
+      for (let i = 0; i < arrayLength; i++) {
+        this.path[this.path.length - 1] = i;
+        items.push(this.printItem());
+      }
+    }
+    this.indentLevel--;
+    this.path.pop();
+
+    this.depth--;
+    return this.formatContainer('[', ']', marker, items);
+  }
+
+  private printMap(info: number): string {
+    this.enterNestedItem();
+    const entries: string[] = [];
+    let marker = '_';
+
+    this.indentLevel++;
+    if (info === CborMinorType.Indefinite) {
+      while (!this.readBreak()) {
+        this.checkLimit('maxMapSize', entries.length + 1);
+        entries.push(this.printMapEntry());
+      }
+    } else {
+      const { value: mapSize, indicator } =
+        this.readArgumentWithIndicator(info);
+      this.checkLimit('maxMapSize', mapSize);
+      marker = indicator;
+
+      for (let i = 0; i < mapSize; i++) {
+        entries.push(this.printMapEntry());
+      }
+    }
+    this.indentLevel--;
+
+    this.depth--;
+    return this.formatContainer('{', '}', marker, entries);
+  }
+
+  private printMapEntry(): string {
+    const [majorType, info] = this.readHead();
+
+    // text string and integer keys are kept in the path of errors, like the keys of decoded maps
+    let key: string;
+    let pathSegment: CborValue = undefined;
+    if (
+      majorType === CborMajorType.TextString &&
+      info !== CborMinorType.Indefinite
+    ) {
+      const { bytes, indicator } = this.readDefiniteString(info);
+      pathSegment = this.decodeUtf8(bytes);
+      key = `${JSON.stringify(pathSegment)}${indicator}`;
+    } else if (
+      majorType === CborMajorType.UnsignedInteger ||
+      majorType === CborMajorType.NegativeInteger
+    ) {
+      const { value, indicator } = this.readInteger(majorType, info);
+      pathSegment = value;
+      key = `${value}${indicator}`;
+    } else {
+      key = this.printItemWithHead(majorType, info);
+    }
+
+    this.path.push(pathSegment);
+    const value = this.printItem();
+    this.path.pop();
+
+    return `${key}: ${value}`;
+  }
+
+  private printTag(info: number): string {
+    const { value: tag, indicator } = this.readArgumentWithIndicator(info);
+
+    this.enterNestedItem();
+    const content = this.printItem();
+    this.depth--;
+
+    return `${tag}${indicator}(${content})`;
+  }
+
+  private printSimple(info: number): string {
+    if (info < CborSimpleType.False) {
+      return `simple(${info})`;
+    }
+
+    switch (info) {
+      case CborSimpleType.False:
+        return 'false';
+
+      case CborSimpleType.True:
+        return 'true';
+
+      case CborSimpleType.Null:
+        return 'null';
+
+      case CborSimpleType.Undefined:
+        return 'undefined';
+
+      case CborSimpleType.Break:
+        throw new DecodingError(
+          'Unexpected break outside of an indefinite length item',
+          this.errorContext(),
+        );
+
+      case CborMinorType.OneByte:
+        return `simple(${this.readExtendedSimple()})`;
+
+      case CborMinorType.TwoBytes:
+      case CborMinorType.FourBytes:
+      case CborMinorType.EightBytes:
+        return this.printFloat(info);
+    }
+
+    throw new DecodingError(
+      `Unrecognized simple type: ${info.toString(2)}`,
+      this.errorContext(),
+    );
+  }
+
+  private printFloat(info: number): string {
+    const byteLength = floatByteLength(info);
+    this.checkAvailableBytes(byteLength);
+    const value = readFloat(this.cborBytes, this.bytesOffset, info);
+    this.bytesOffset += byteLength;
+
+    return `${formatFloat(value)}_${info - CborMinorType.OneByte}`;
+  }
+
+  /**
+   * Formats the items of an array, a map or an indefinite-length string,
+   * one per line when the items are indented.
+   */
+  private formatContainer(
+    open: string,
+    close: string,
+    marker: string,
+    items: string[],
+  ): string {
+    if (!this.indent || items.length === 0) {
+      return `${open}${marker && `${marker} `}${items.join(', ')}${close}`;
+    }
+
+    const outerIndent = this.indent.repeat(this.indentLevel);
+    const innerIndent = outerIndent + this.indent;
+    return `${open}${marker}\n${innerIndent}${items.join(`,\n${innerIndent}`)}\n${outerIndent}${close}`;
+  }
+
+  protected errorContext(): DecodingErrorContext {
+    return {
+      offset: this.bytesOffset,
+      majorType: this.majorType,
+      path: formatPath(this.path),
+    };
+  }
+}
+
+/**
+ * Formats the encoding indicator of an argument, see {@link Argument.indicator}.
+ */
+function argumentIndicator(value: CborNumber, info: number): string {
+  return isShortestArgument(value, info)
+    ? ''
+    : `_${info - CborMinorType.OneByte}`;
+}
+
+/**
+ * Formats a float so that it can't be mistaken for an integer, such as `1.0` or `1.0e+21`.
+ */
+function formatFloat(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+
+  if (!Number.isFinite(value)) {
+    return value > 0 ? 'Infinity' : '-Infinity';
+  }
+
+  if (Object.is(value, -0)) {
+    return '-0.0';
+  }
+
+  const formatted = String(value);
+  if (formatted.includes('.')) {
+    return formatted;
+  }
+
+  return formatted.includes('e')
+    ? formatted.replace('e', '.0e')
+    : `${formatted}.0`;
+}
@@ -1,2 +1,22 @@
-export { DecodingError } from './decoding-error';
-export { decode } from './decode';
+export {
+  DecodingError,
+  InvalidMapKeyError,
+  InvalidUtf8Error,
+  LimitExceededError,
+  UnexpectedEndError,
+  UnsupportedTagError,
+} from './decoding-error';
+export type { DecodingErrorContext } from './decoding-error';
+export { decode, decodeFirst, decodeSequence } from './decode';
+export { Decoder } from './decoder';
+export type {
+  ByteStrings,
+  DecodeOptions,
+  DecodeResult,
+  Reviver,
+  UnknownTags,
+} from './decoder';
+export type { DecodeLimits } from '../util';
+export { createDecoderStream, decodeStream } from './decoder-stream';
+export { toDiagnostic, valueToDiagnostic } from './diagnostic';
+export type { DiagnosticOptions } from './diagnostic';
@@ -1,7 +1,34 @@
 import { it, describe, expect, test, vi, beforeEach } from 'vitest';
-import { encode, Replacer, encodeWithSelfDescribedTag } from './encode';
-import { decode } from '../decode/decode';
-import { CborValue } from '../cbor-value';
+import {
+  encode,
+  encodedLength,
+  encodeInto,
+  encodeSequence,
+  encodeWithSelfDescribedTag,
+} from './encode';
+import {
+  DateFormat,
+  EncodeOptions,
+  Encoder,
+  FloatPrecision,
+  Replacer,
+} from './encoder';
+import {
+  BufferTooSmallError,
+  EncodingError,
+  UnsupportedTypeError,
+} from './encoding-error';
+import { decode, decodeSequence } from '../decode/decode';
+import { CborNumber, CborValue, MapKeyOrder } from '../cbor-value';
+import {
+  CborEncodable,
+  TagHandler,
+  Tagged,
+  createClassHandler,
+} from '../tagged';
+import { Indefinite } from '../indefinite';
+import { MultiDimensionalArray } from '../multi-dimensional-array';
+import { Simple } from '../simple';
 
 function bytesToHexArray(arrayBuffer: Uint8Array): string[] {
   return Array.from(arrayBuffer).map(byte =>
@@ -115,6 +142,24 @@ const TEST_CASES: Array<{ value: CborValue; expected: string }> = [
   { value: new ArrayBuffer(3), expected: '43000000' },
   { value: new ArrayBuffer(0), expected: '40' },
 
+  // ###### FLOATS ######
+
+  { value: 1.5, expected: 'F93E00' }, // half precision
+  { value: -4.5, expected: 'F9C480' }, // negative half precision
+  { value: 65_504.5, expected: 'FA477FE080' }, // single precision
+  { value: 100_000.5, expected: 'FA47C35040' }, // single precision
+  { value: 1.1, expected: 'FB3FF199999999999A' }, // double precision
+  { value: -4.1, expected: 'FBC010666666666666' }, // negative double precision
+  { value: 5.960464477539063e-8, expected: 'F90001' }, // smallest half precision subnormal
+  { value: 0.00006103515625, expected: 'F90400' }, // smallest half precision normal
+  { value: 3.4028234663852886e38, expected: 'FA7F7FFFFF' }, // largest single precision
+  { value: 2 ** 64, expected: 'FA5F800000' }, // integer too large for 8 bytes
+  { value: 1.0e300, expected: 'FB7E37E43C8800759C' }, // integer too large for single precision
+  { value: -0, expected: 'F98000' }, // negative zero
+  { value: Infinity, expected: 'F97C00' }, // positive infinity
+  { value: -Infinity, expected: 'F9FC00' }, // negative infinity
+  { value: NaN, expected: 'F97E00' }, // not a number
+
   // ###### POSITIVE NUMBERS ######
 
   { value: 1, expected: '01' }, // largest value in 1 bit
@@ -168,6 +213,25 @@ const TEST_CASES: Array<{ value: CborValue; expected: string }> = [
   { value: -72_057_594_037_927_936n, expected: '3B00FFFFFFFFFFFFFF' }, // largest values in seven bytes
   { value: -72_057_594_037_927_937n, expected: '3B0100000000000000' }, // smallest values in eight bytes
   { value: -18_446_744_073_709_551_616n, expected: '3BFFFFFFFFFFFFFFFF' }, // largest values in eight bytes
+  { value: -(2 ** 60), expected: '3B0FFFFFFFFFFFFFFF' }, // unsafe integer
+  { value: -(2 ** 64), expected: '3BFFFFFFFFFFFFFFFF' }, // smallest number in eight bytes
+
+  // ###### BIGNUMS ######
+
+  { value: 18_446_744_073_709_551_616n, expected: 'C249010000000000000000' }, // smallest positive bignum
+  { value: -18_446_744_073_709_551_617n, expected: 'C349010000000000000000' }, // largest negative bignum
+  {
+    value: 340_282_366_920_938_463_463_374_607_431_768_211_455n,
+    expected: 'C250FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF',
+  }, // largest 128-bit unsigned integer
+  {
+    value: -340_282_366_920_938_463_463_374_607_431_768_211_456n,
+    expected: 'C350FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF',
+  }, // smallest 128-bit negative integer
+  {
+    value: 2n ** 72n,
+    expected: 'C24A01000000000000000000',
+  }, // bignum with an odd number of hex digits
 ];
 
 describe('encode', () => {
@@ -181,18 +245,853 @@ describe('encode', () => {
     },
   );
 
-  it('should throw if a positive value cannot fit within 8 bytes', () => {
-    const value = 18_446_744_073_709_551_616n;
+  it('should throw if a tag number cannot fit within 8 bytes', () => {
+    const value = new Tagged(18_446_744_073_709_551_616n, 1);
     const error = 'Value too large to encode: 18446744073709551616';
 
     expect(() => encode(value)).toThrow(error);
   });
 
-  it('should throw if a negative value cannot fit within 8 bytes', () => {
-    const value = -18_446_744_073_709_551_617n;
-    const error = 'Value too large to encode: 18446744073709551616';
+  it.each([
+    [-1, 'Tag numbers must be non-negative integers: -1'],
+    [-1n, 'Tag numbers must be non-negative integers: -1'],
+    [1.5, 'Tag numbers must be non-negative integers: 1.5'],
+    [NaN, 'Tag numbers must be non-negative integers: NaN'],
+  ])(
+    'should throw if a tag number is not a CBOR tag number: %s',
+    (tag, error) => {
+      const value = new Tagged(tag, 1);
 
-    expect(() => encode(value)).toThrow(error);
+      expect(() => encode(value)).toThrow(EncodingError);
+      expect(() => encode(value)).toThrow(error);
+      expect(() => encodedLength(value)).toThrow(error);
+    },
+  );
+
+  it('should round-trip bignums', () => {
+    const value = {
+      amount: 2n ** 128n - 1n,
+      debt: -(2n ** 100n),
+      values: [2n ** 64n, -(2n ** 64n) - 1n, 2n ** 64n - 1n],
+    };
+
+    expect(decode(encode(value))).toEqual(value);
+  });
+
+  describe('encoding errors', () => {
+    it('should throw an UnsupportedTypeError with the path of the value', () => {
+      const value = { a: [1, { 'b c': () => {} }] };
+
+      expect(() => encode(value)).toThrow(UnsupportedTypeError);
+      expect(() => encode(value)).toThrow(
+        expect.objectContaining({
+          name: 'UnsupportedTypeError',
+          type: 'function',
+          path: '$.a[1]["b c"]',
+        }),
+      );
+    });
+
+    it('should throw an EncodingError with the path of the value', () => {
+      const value = new Map([
+        [1, Indefinite.text([new Uint8Array() as unknown as string])],
+      ]);
+
+      expect(() => encode(value)).toThrow(
+        expect.objectContaining({
+          name: 'EncodingError',
+          path: '$[1]',
+        }),
+      );
+    });
+
+    it.each(['\uD800', 'a\uDC00', '\uDBFFa', '\uDC00\uD800'])(
+      'should reject the lone surrogates in %j',
+      value => {
+        expect(() => encode({ a: [value] })).toThrow(
+          expect.objectContaining({
+            message: 'Text strings must not contain lone surrogates',
+            path: '$.a[0]',
+          }),
+        );
+      },
+    );
+
+    it('should encode surrogate pairs', () => {
+      expect(bytesToHexString(encode('\uD83D\uDE00'))).toEqual('64F09F9880');
+    });
+
+    it('should report the path of tag numbers that are too large', () => {
+      const value = [{ a: new Tagged(18_446_744_073_709_551_616n, 1) }];
+
+      expect(() => encode(value)).toThrow(EncodingError);
+      expect(() => encode(value)).toThrow(
+        expect.objectContaining({ path: '$[0].a' }),
+      );
+    });
+
+    it('should not add its path to the errors of a nested encoding', () => {
+      const value = { a: [{ toCBOR: () => encode({ b: () => {} }) }] };
+
+      expect(() => encode(value)).toThrow(
+        expect.objectContaining({ name: 'UnsupportedTypeError', path: '$.b' }),
+      );
+    });
+  });
+
+  describe('encode with float precision', () => {
+    it.each<{ value: number; precision: FloatPrecision; expected: string }>([
+      { value: 1.5, precision: 'single', expected: 'FA3FC00000' },
+      { value: 1.5, precision: 'double', expected: 'FB3FF8000000000000' },
+      { value: 1.1, precision: 'half', expected: 'F93C66' }, // rounded to 1.099609375
+      { value: 1.1, precision: 'single', expected: 'FA3F8CCCCD' }, // rounded to 1.100000023841858
+      { value: 65_520.5, precision: 'half', expected: 'F97C00' }, // overflows to infinity
+      { value: 2.980232238769531e-8, precision: 'half', expected: 'F90000' }, // ties to even
+      { value: NaN, precision: 'double', expected: 'FB7FF8000000000000' },
+      { value: -0, precision: 'single', expected: 'FA80000000' },
+    ])(
+      'should encode $value with $precision precision',
+      ({ value, precision, expected }) => {
+        const result = encode(value, undefined, { floatPrecision: precision });
+
+        expect(bytesToHexString(result)).toEqual(expected);
+      },
+    );
+
+    it('should encode integers as integers regardless of float precision', () => {
+      const result = encode([1, -2], undefined, { floatPrecision: 'double' });
+
+      expect(bytesToHexString(result)).toEqual('820121');
+    });
+
+    it('should round-trip floats', () => {
+      const values = [0.1, -1.5, 1e-10, 3.4e38, Number.MIN_VALUE, -0];
+
+      expect(decode(encode(values))).toEqual(values);
+    });
+  });
+
+  describe('encode with tags', () => {
+    class Point {
+      constructor(
+        public readonly x: number,
+        public readonly y: number,
+      ) {}
+    }
+
+    const pointHandler: TagHandler<Point> = {
+      tag: 40_000,
+      test: value => value instanceof Point,
+      encode: ({ x, y }) => [x, y],
+      decode: value => {
+        const [x, y] = value as [number, number];
+        return new Point(x, y);
+      },
+    };
+
+    it('should encode tagged values', () => {
+      const result = encode(new Tagged(1, 1_363_896_240));
+
+      expect(bytesToHexString(result)).toEqual('C11A514B67B0'); // 1(1363896240)
+    });
+
+    it('should encode nested tagged values', () => {
+      const result = encode({ a: new Tagged(32, [new Tagged(33, 1), 2]) });
+
+      expect(bytesToHexString(result)).toEqual('A16161D82082D8210102'); // { "a": 32([33(1), 2]) }
+    });
+
+    it('should encode tagged values with big int tag numbers', () => {
+      const result = encode(new Tagged(18_446_744_073_709_551_615n, 1));
+
+      expect(bytesToHexString(result)).toEqual('DBFFFFFFFFFFFFFFFF01'); // 18446744073709551615(1)
+    });
+
+    it('should encode values with a handler', () => {
+      const result = encode([new Point(1, 2)], undefined, {
+        tags: [pointHandler],
+      });
+
+      expect(bytesToHexString(result)).toEqual('81D99C40820102'); // [40000([1, 2])]
+    });
+
+    it('should ignore handlers without test and encode functions', () => {
+      const result = encode(new Point(1, 2), undefined, {
+        tags: [{ tag: 40_000, encode: () => 1 }],
+      });
+
+      expect(bytesToHexString(result)).toEqual('A2617801617902'); // { "x": 1, "y": 2 }
+    });
+
+    it('should round-trip values with a handler', () => {
+      const value = { a: new Point(1, 2), b: [new Point(3, 4)] };
+      const result = decode(
+        encode(value, undefined, { tags: [pointHandler] }),
+        undefined,
+        { tags: [pointHandler] },
+      );
+
+      expect(result).toEqual(value);
+      expect((result as typeof value).a).toBeInstanceOf(Point);
+    });
+  });
+
+  describe('encode dates', () => {
+    it.each<{ value: Date; options?: EncodeOptions; expected: string }>([
+      {
+        value: new Date('2013-03-21T20:04:00Z'),
+        expected: 'C11A514B67B0', // 1(1363896240)
+      },
+      {
+        value: new Date('2013-03-21T20:04:00.500Z'),
+        expected: 'C1FB41D452D9EC200000', // 1(1363896240.5)
+      },
+      {
+        value: new Date('2013-03-21T20:04:00.500Z'),
+        options: { floatPrecision: 'half' },
+        expected: 'C1FB41D452D9EC200000', // 1(1363896240.5)
+      },
+      {
+        value: new Date('1970-01-01T00:00:01.500Z'),
+        expected: 'C1F93E00', // 1(1.5)
+      },
+      {
+        value: new Date('1969-12-31T00:00:00Z'),
+        expected: 'C13A0001517F', // 1(-86400)
+      },
+      {
+        value: new Date('2013-03-21T20:04:00Z'),
+        options: { dateFormat: 'string' },
+        expected: 'C074323031332D30332D32315432303A30343A30305A', // 0("2013-03-21T20:04:00Z")
+      },
+      {
+        value: new Date('2013-03-21T20:04:00.250Z'),
+        options: { dateFormat: 'string' },
+        expected: 'C07818323031332D30332D32315432303A30343A30302E3235305A', // 0("2013-03-21T20:04:00.250Z")
+      },
+    ])('should encode $value with $options', ({ value, options, expected }) => {
+      const result = encode(value, undefined, options);
+
+      expect(bytesToHexString(result)).toEqual(expected);
+      expect(encodedLength(value, undefined, options)).toBe(
+        expected.length / 2,
+      );
+    });
+
+    it.each<DateFormat>(['epoch', 'string'])(
+      'should round-trip dates encoded as %s',
+      dateFormat => {
+        const value = {
+          a: new Date('2013-03-21T20:04:00.123Z'),
+          b: [new Date(0), new Date(-1)],
+        };
+
+        expect(decode(encode(value, undefined, { dateFormat }))).toEqual(value);
+      },
+    );
+
+    it('should prefer handlers over dates', () => {
+      const result = encode(new Date(0), undefined, {
+        tags: [
+          {
+            tag: 1_001,
+            test: value => value instanceof Date,
+            encode: () => ({ 1: 0 }),
+          },
+        ],
+      });
+
+      expect(bytesToHexString(result)).toEqual('D903E9A1613100'); // 1001({ "1": 0 })
+    });
+
+    it.each<{ value: Date; options?: EncodeOptions; error: string }>([
+      {
+        value: new Date(NaN),
+        error: 'Invalid Date cannot be encoded',
+      },
+      {
+        value: new Date(NaN),
+        options: { dateFormat: 'string' },
+        error: 'Invalid Date cannot be encoded',
+      },
+      {
+        value: new Date('+010000-01-01T00:00:00Z'),
+        options: { dateFormat: 'string' },
+        error:
+          'Date cannot be encoded as an RFC 3339 string: +010000-01-01T00:00:00.000Z',
+      },
+    ])('should throw on $value with $options', ({ value, options, error }) => {
+      expect(() => encode({ a: [value] }, undefined, options)).toThrow(
+        expect.objectContaining({ message: error, path: '$.a[0]' }),
+      );
+      expect(() => encodedLength(value, undefined, options)).toThrow(error);
+    });
+  });
+
+  describe('encode class instances', () => {
+    class Money implements CborEncodable {
+      constructor(
+        public readonly amount: bigint,
+        public readonly currency: string,
+      ) {}
+
+      toCBOR(): CborValue {
+        return [this.amount, this.currency];
+      }
+
+      static fromCBOR(value: CborValue): Money {
+        const [amount, currency] = value as [CborNumber, string];
+        return new Money(BigInt(amount), currency);
+      }
+    }
+
+    const moneyHandler = createClassHandler(40_001, Money);
+
+    it('should encode the value returned by toCBOR', () => {
+      const value = { a: new Money(5n, 'ICP') };
+
+      expect(bytesToHexString(encode(value))).toEqual('A16161820563494350'); // { "a": [5, "ICP"] }
+      expect(encodedLength(value)).toBe(9);
+    });
+
+    it('should encode toCBOR values that are encodable themselves', () => {
+      const value = { toCBOR: () => ({ toCBOR: () => new Date(0) }) };
+
+      expect(bytesToHexString(encode(value))).toEqual('C100'); // 1(0)
+    });
+
+    it('should pass the value returned by toCBOR to the replacer', () => {
+      const replacer: Replacer = value =>
+        typeof value === 'string' ? value.toLowerCase() : value;
+      const result = encode([new Money(5n, 'ICP')], replacer);
+
+      expect(bytesToHexString(result)).toEqual('81820563696370'); // [[5, "icp"]]
+    });
+
+    it('should encode registered classes with their tag', () => {
+      const value = [new Money(2n ** 64n, 'ICP')];
+      const result = encode(value, undefined, { tags: [moneyHandler] });
+
+      expect(bytesToHexString(result)).toEqual(
+        '81D99C4182C24901000000000000000063494350',
+      ); // [40001([18446744073709551616, "ICP"])]
+      expect(encodedLength(value, undefined, { tags: [moneyHandler] })).toBe(
+        result.length,
+      );
+    });
+
+    it('should round-trip registered classes', () => {
+      const value = { a: new Money(5n, 'ICP'), b: [new Money(7n, 'USD')] };
+      const result = decode(
+        encode(value, undefined, { tags: [moneyHandler] }),
+        undefined,
+        { tags: [moneyHandler] },
+      );
+
+      expect(result).toEqual(value);
+      expect((result as typeof value).b[0]).toBeInstanceOf(Money);
+    });
+  });
+
+  describe('encode undefined properties', () => {
+    it('should encode undefined properties by default', () => {
+      const result = encode({ a: 1, b: undefined });
+
+      expect(bytesToHexString(result)).toEqual('A26161016162F7'); // { "a": 1, "b": undefined }
+    });
+
+    it.each<{ value: CborValue; expected: string }>([
+      { value: { a: 1, b: undefined }, expected: 'A1616101' }, // { "a": 1 }
+      { value: { a: undefined }, expected: 'A0' }, // {}
+      { value: [{ a: undefined }, undefined], expected: '82A0F7' }, // [{}, undefined]
+      { value: { a: null }, expected: 'A16161F6' }, // { "a": null }
+      {
+        value: new Map([['a', undefined]]),
+        expected: 'A16161F7',
+      }, // { "a": undefined }
+    ])(
+      'should omit the undefined properties of $value with omitUndefinedProperties',
+      ({ value, expected }) => {
+        const options: EncodeOptions = { omitUndefinedProperties: true };
+
+        expect(bytesToHexString(encode(value, undefined, options))).toEqual(
+          expected,
+        );
+        expect(encodedLength(value, undefined, options)).toBe(
+          expected.length / 2,
+        );
+      },
+    );
+
+    it('should omit undefined properties in deterministic encoding', () => {
+      const result = encode({ b: 1, c: undefined, a: 2 }, undefined, {
+        omitUndefinedProperties: true,
+        deterministic: true,
+      });
+
+      expect(bytesToHexString(result)).toEqual('A2616102616201'); // { "a": 2, "b": 1 }
+    });
+
+    it('should round-trip objects without their undefined properties', () => {
+      const result = decode(
+        encode({ a: 1, b: undefined }, undefined, {
+          omitUndefinedProperties: true,
+        }),
+      );
+
+      expect(result).toStrictEqual({ a: 1 });
+    });
+  });
+
+  describe('encode sets', () => {
+    it('should encode sets as maps by default', () => {
+      expect(bytesToHexString(encode(new Set([1, 2])))).toEqual('A0'); // {}
+    });
+
+    it.each<{ value: CborValue; expected: string }>([
+      { value: new Set([1, 'a']), expected: 'D9010282016161' }, // 258([1, "a"])
+      { value: new Set(), expected: 'D9010280' }, // 258([])
+      {
+        value: { a: new Set([new Set([1])]) },
+        expected: 'A16161D9010281D901028101',
+      }, // { "a": 258([258([1])]) }
+    ])('should encode $value with useSets', ({ value, expected }) => {
+      const options: EncodeOptions = { useSets: true };
+
+      expect(bytesToHexString(encode(value, undefined, options))).toEqual(
+        expected,
+      );
+      expect(encodedLength(value, undefined, options)).toBe(
+        expected.length / 2,
+      );
+    });
+
+    it('should round-trip sets', () => {
+      const value = { a: new Set([1, 'b', 2n ** 64n]), b: [new Set()] };
+
+      expect(decode(encode(value, undefined, { useSets: true }))).toEqual(
+        value,
+      );
+    });
+  });
+
+  describe('encode simple values', () => {
+    it.each<{ value: CborValue; expected: string }>([
+      { value: new Simple(0), expected: 'E0' }, // simple(0)
+      { value: new Simple(19), expected: 'F3' }, // simple(19)
+      { value: new Simple(32), expected: 'F820' }, // simple(32)
+      { value: new Simple(255), expected: 'F8FF' }, // simple(255)
+      { value: { a: new Simple(16) }, expected: 'A16161F0' }, // { "a": simple(16) }
+    ])('should encode $value', ({ value, expected }) => {
+      expect(bytesToHexString(encode(value))).toEqual(expected);
+      expect(encodedLength(value)).toBe(expected.length / 2);
+    });
+
+    it('should round-trip simple values', () => {
+      const value = Array.from({ length: 256 }, (_, i) => new Simple(i)).filter(
+        simple => simple.isValid(),
+      );
+
+      expect(value).toHaveLength(244);
+      expect(decode(encode(value))).toEqual(value);
+    });
+
+    it.each([20, 23, 24, 31, 256, -1, 1.5, NaN])(
+      'should reject the simple value %d',
+      simpleValue => {
+        const error = `Invalid simple value: ${simpleValue}, expected an integer in the ranges 0-19 or 32-255`;
+
+        expect(() => encode([new Simple(simpleValue)])).toThrow(
+          expect.objectContaining({ message: error, path: '$[0]' }),
+        );
+        expect(() => encodedLength(new Simple(simpleValue))).toThrow(error);
+      },
+    );
+  });
+
+  describe('encode typed arrays', () => {
+    it.each<{ value: CborValue; expected: string }>([
+      { value: new Uint8ClampedArray([1, 2]), expected: 'D844420102' }, // 68(h'0102')
+      { value: new Int8Array([1, -1]), expected: 'D8484201FF' }, // 72(h'01FF')
+      { value: new Uint16Array([1, 0x0203]), expected: 'D8454401000302' }, // 69(h'01000302')
+      { value: new Int16Array([-2]), expected: 'D84D42FEFF' }, // 77(h'FEFF')
+      { value: new Uint32Array([1]), expected: 'D8464401000000' }, // 70(h'01000000')
+      { value: new Int32Array([-1]), expected: 'D84E44FFFFFFFF' }, // 78(h'FFFFFFFF')
+      {
+        value: new BigUint64Array([1n]),
+        expected: 'D847480100000000000000',
+      }, // 71(h'0100000000000000')
+      {
+        value: new BigInt64Array([-1n]),
+        expected: 'D84F48FFFFFFFFFFFFFFFF',
+      }, // 79(h'FFFFFFFFFFFFFFFF')
+      { value: new Float32Array([1.5]), expected: 'D855440000C03F' }, // 85(h'0000C03F')
+      {
+        value: new Float64Array([1.5]),
+        expected: 'D85648000000000000F83F',
+      }, // 86(h'000000000000F83F')
+      {
+        value: new Float32Array([1, 1.5]).subarray(1),
+        expected: 'D855440000C03F',
+      }, // 85(h'0000C03F')
+      { value: new Float64Array(), expected: 'D85640' }, // 86(h'')
+      {
+        value: new MultiDimensionalArray([2, 3], [1, 2, 3, 4, 5, 6]),
+        expected: 'D8288282020386010203040506',
+      }, // 40([[2, 3], [1, 2, 3, 4, 5, 6]])
+      {
+        value: new MultiDimensionalArray([2, 1], new Uint16Array([1, 2])),
+        expected: 'D82882820201D8454401000200',
+      }, // 40([[2, 1], 69(h'01000200')])
+    ])('should encode $value', ({ value, expected }) => {
+      expect(bytesToHexString(encode(value))).toEqual(expected);
+      expect(encodedLength(value)).toBe(expected.length / 2);
+    });
+
+    it('should round-trip typed arrays', () => {
+      const value = {
+        clamped: new Uint8ClampedArray([0, 255]),
+        int8: new Int8Array([-128, 127]),
+        uint16: new Uint16Array([0, 65_535]),
+        int16: new Int16Array([-32_768, 32_767]),
+        uint32: new Uint32Array([0, 4_294_967_295]),
+        int32: new Int32Array([-2_147_483_648, 2_147_483_647]),
+        biguint64: new BigUint64Array([0n, 2n ** 64n - 1n]),
+        bigint64: new BigInt64Array([-(2n ** 63n), 2n ** 63n - 1n]),
+        float32: new Float32Array([1.5, -0, NaN, Infinity]),
+        float64: new Float64Array([1.1, Number.MIN_VALUE]),
+        embeddings: new MultiDimensionalArray(
+          [2, 2],
+          new Float32Array([0.25, 0.5, 0.75, 1]),
+        ),
+      };
+
+      expect(decode(encode(value))).toEqual(value);
+    });
+
+    it('should throw on multi-dimensional arrays with invalid dimensions', () => {
+      const value = { a: new MultiDimensionalArray([2, 2], [1, 2, 3]) };
+
+      expect(() => encode(value)).toThrow(
+        expect.objectContaining({
+          name: 'EncodingError',
+          message:
+            "Multi-dimensional array dimensions [2, 2] don't match its 3 elements",
+          path: '$.a',
+        }),
+      );
+    });
+  });
+
+  describe('encode maps', () => {
+    it.each<{ value: Map<CborValue, CborValue>; expected: string }>([
+      { value: new Map(), expected: 'A0' },
+      {
+        value: new Map([
+          [1, 2],
+          [3, 4],
+        ]),
+        expected: 'A201020304',
+      }, // { 1: 2, 3: 4 }
+      {
+        value: new Map<CborValue, CborValue>([
+          [1, 2],
+          [-1, 1],
+          [new Uint8Array([1, 2, 3]), 'a'],
+          ['a', new Map()],
+        ]),
+        expected: 'A4010220014301020361616161A0',
+      }, // { 1: 2, -1: 1, h'010203': "a", "a": {} }
+      {
+        value: new Map([[[1, 2], 'a']]),
+        expected: 'A18201026161',
+      }, // { [1, 2]: "a" }
+    ])('should encode map %#', ({ value, expected }) => {
+      expect(bytesToHexString(encode(value))).toEqual(expected);
+    });
+
+    it('should pass stringified numeric keys to the replacer', () => {
+      const value = new Map<CborValue, CborValue>([
+        [1, 10],
+        [new Uint8Array([1]), true],
+      ]);
+      const keys: Array<string | undefined> = [];
+      const replacer: Replacer = (value, key) => {
+        keys.push(key);
+        return value;
+      };
+      encode(value, replacer);
+
+      expect(keys).toEqual([undefined, '1', undefined]);
+    });
+
+    it.each<{ mapKeyOrder: MapKeyOrder; expected: string }>([
+      {
+        mapKeyOrder: 'bytewise',
+        expected: 'A80A001864012002617A036261610481186405812006F407',
+      },
+      {
+        mapKeyOrder: 'length-first',
+        expected: 'A80A002002F407186401617A038120066261610481186405',
+      },
+    ])(
+      'should sort map keys in $mapKeyOrder order',
+      ({ mapKeyOrder, expected }) => {
+        const value = new Map<CborValue, CborValue>([
+          [false, 7],
+          [[-1], 6],
+          [[100], 5],
+          ['aa', 4],
+          ['z', 3],
+          [-1, 2],
+          [100, 1],
+          [10, 0],
+        ]);
+        const result = encode(value, undefined, {
+          deterministic: true,
+          mapKeyOrder,
+        });
+
+        expect(bytesToHexString(result)).toEqual(expected);
+      },
+    );
+
+    it('should throw on duplicate keys when encoding deterministically', () => {
+      const value = new Map([
+        [new Uint8Array([1]), 1],
+        [new Uint8Array([1]), 2],
+      ]);
+
+      expect(() => encode(value)).not.toThrow();
+      expect(() => encode(value, undefined, { deterministic: true })).toThrow(
+        'Duplicate map key in deterministic encoding',
+      );
+    });
+
+    it('should sort set elements when encoding deterministically', () => {
+      const options: EncodeOptions = { deterministic: true, useSets: true };
+      const result = encode(new Set([2, 'a', 1]), undefined, options);
+
+      expect(bytesToHexString(result)).toEqual('D901028301026161'); // 258([1, 2, "a"])
+      expect(encode(new Set([1, 'a', 2]), undefined, options)).toEqual(result);
+      expect(encodedLength(new Set([2, 'a', 1]), undefined, options)).toEqual(
+        result.length,
+      );
+      expect(decode(result, undefined, { strict: true })).toEqual(
+        new Set([1, 2, 'a']),
+      );
+    });
+
+    it('should throw on duplicate set elements when encoding deterministically', () => {
+      const value = new Set([{ a: 1 }, { a: 1 }]);
+      const options: EncodeOptions = { deterministic: true, useSets: true };
+
+      expect(() => encode(value, undefined, { useSets: true })).not.toThrow();
+      expect(() => encode(value, undefined, options)).toThrow(
+        'Duplicate set element in deterministic encoding',
+      );
+      expect(() => encodedLength(value, undefined, options)).toThrow(
+        'Duplicate set element in deterministic encoding',
+      );
+    });
+
+    it('should round-trip maps', () => {
+      const value = new Map<CborValue, CborValue>([
+        [1, new Map([[-2, 'b']])],
+        [new Uint8Array([1]), [1.5, 'a']],
+      ]);
+
+      expect(decode(encode(value), undefined, { useMaps: true })).toEqual(
+        value,
+      );
+    });
+  });
+
+  describe('encode indefinite length items', () => {
+    it.each<{ value: Indefinite; expected: string }>([
+      { value: Indefinite.array([]), expected: '9FFF' },
+      { value: Indefinite.array([1, 2, 3]), expected: '9F010203FF' },
+      {
+        value: Indefinite.array([1, [2, 3], Indefinite.array([4, 5])]),
+        expected: '9F018202039F0405FFFF',
+      },
+      { value: Indefinite.map({}), expected: 'BFFF' },
+      {
+        value: Indefinite.map({ a: 1, b: Indefinite.array([2, 3]) }),
+        expected: 'BF61610161629F0203FFFF',
+      },
+      {
+        value: Indefinite.map([
+          [1, 'a'],
+          [-1, 'b'],
+        ]),
+        expected: 'BF016161206162FF',
+      },
+      { value: Indefinite.bytes([]), expected: '5FFF' },
+      {
+        value: Indefinite.bytes([
+          new Uint8Array([1, 2]),
+          new Uint8Array([3, 4, 5]),
+        ]),
+        expected: '5F42010243030405FF',
+      },
+      { value: Indefinite.text([]), expected: '7FFF' },
+      {
+        value: Indefinite.text(['strea', 'ming']),
+        expected: '7F657374726561646D696E67FF',
+      },
+    ])('should encode indefinite length item %#', ({ value, expected }) => {
+      expect(bytesToHexString(encode(value))).toEqual(expected);
+    });
+
+    it('should encode items produced lazily', () => {
+      function* chunks(): Generator<string> {
+        yield 'a';
+        yield 'b';
+      }
+
+      expect(bytesToHexString(encode(Indefinite.text(chunks())))).toEqual(
+        '7F61616162FF',
+      );
+    });
+
+    it('should pass keys to the replacer', () => {
+      const value = Indefinite.map({ a: Indefinite.array([1, 2]) });
+      const keys: Array<string | undefined> = [];
+      const replacer: Replacer = (value, key) => {
+        keys.push(key);
+        return value;
+      };
+      encode(value, replacer);
+
+      expect(keys).toEqual([undefined, 'a', '0', '1']);
+    });
+
+    it('should throw on invalid chunks', () => {
+      expect(() =>
+        encode(Indefinite.bytes(['a' as unknown as Uint8Array])),
+      ).toThrow('Indefinite length byte string chunks must be Uint8Arrays');
+      expect(() =>
+        encode(Indefinite.text([new Uint8Array() as unknown as string])),
+      ).toThrow('Indefinite length text string chunks must be strings');
+    });
+
+    it.each([[[1]], [1], [[1, 2, 3]]])(
+      'should throw on the invalid map entry %j',
+      entry => {
+        const value = Indefinite.map([
+          entry as unknown as [CborValue, CborValue],
+        ]);
+        const error =
+          'Indefinite length map entries must be [key, value] pairs';
+
+        expect(() => encode(value)).toThrow(EncodingError);
+        expect(() => encode(value)).toThrow(error);
+        expect(() => encodedLength(value)).toThrow(error);
+      },
+    );
+
+    it('should throw when encoding deterministically', () => {
+      expect(() =>
+        encode(Indefinite.array([1]), undefined, { deterministic: true }),
+      ).toThrow(
+        'Indefinite length items are not allowed in deterministic encoding',
+      );
+    });
+
+    it('should round-trip indefinite length items', () => {
+      const value = Indefinite.map({
+        a: Indefinite.bytes([new Uint8Array([1]), new Uint8Array([2])]),
+        b: Indefinite.text(['x', 'y']),
+        c: Indefinite.array([1.5, null]),
+      });
+
+      expect(decode(encode(value))).toEqual({
+        a: new Uint8Array([1, 2]),
+        b: 'xy',
+        c: [1.5, null],
+      });
+    });
+  });
+
+  describe('encode deterministically', () => {
+    it('should sort map keys by their encoded bytes', () => {
+      const value = {
+        b: 1,
+        aa: 2,
+        a: 3,
+        [new Array(24).fill('c').join('')]: 4,
+      };
+      const result = encode(value, undefined, { deterministic: true });
+
+      expect(bytesToHexString(result)).toEqual(
+        `A4616103616201626161027818${new Array(24).fill('63').join('')}04`,
+      ); // { "a": 3, "b": 1, "aa": 2, "cccccccccccccccccccccccc": 4 }
+    });
+
+    it('should sort nested map keys', () => {
+      const value = [{ z: { y: 1, x: 2 }, a: null }];
+      const result = encode(value, undefined, { deterministic: true });
+
+      expect(bytesToHexString(result)).toEqual('81A26161F6617AA2617802617901'); // [{ "a": null, "z": { "x": 2, "y": 1 } }]
+    });
+
+    it('should sort map keys in length-first order', () => {
+      const value = { b: 1, aa: 2, a: 3 };
+      const result = encode(value, undefined, {
+        deterministic: true,
+        mapKeyOrder: 'length-first',
+      });
+
+      expect(bytesToHexString(result)).toEqual('A361610361620162616102'); // { "a": 3, "b": 1, "aa": 2 }
+    });
+
+    it('should not sort map keys when not deterministic', () => {
+      const value = { b: 1, a: 2 };
+      const result = encode(value, undefined, { mapKeyOrder: 'length-first' });
+
+      expect(bytesToHexString(result)).toEqual('A2616201616102'); // { "b": 1, "a": 2 }
+    });
+
+    it('should pass the original keys to the replacer', () => {
+      const value = { b: 1, a: 2 };
+      const replacer: Replacer = (value, key) =>
+        typeof value === 'number' ? `${key}${value}` : value;
+      const result = encode(value, replacer, { deterministic: true });
+
+      expect(bytesToHexString(result)).toEqual('A261616261326162626231'); // { "a": "a2", "b": "b1" }
+    });
+
+    it('should encode floats in their shortest form', () => {
+      const result = encode([1.5, 100_000.5, 1.1], undefined, {
+        deterministic: true,
+      });
+
+      expect(bytesToHexString(result)).toEqual(
+        '83F93E00FA47C35040FB3FF199999999999A',
+      );
+    });
+
+    it('should throw if a float precision is forced', () => {
+      expect(() =>
+        encode(1.5, undefined, {
+          deterministic: true,
+          floatPrecision: 'double',
+        }),
+      ).toThrow(
+        'Float precision "double" is not allowed in deterministic encoding',
+      );
+    });
+
+    it('should round-trip in strict mode', () => {
+      const value = { z: [1.5, -300, 'x'], a: { c: 1_000_000n, b: 2 } };
+      const encoded = encode(value, undefined, { deterministic: true });
+
+      expect(decode(encoded, undefined, { strict: true })).toEqual({
+        a: { b: 2, c: 1_000_000 },
+        z: [1.5, -300, 'x'],
+      });
+    });
   });
 
   describe('encode with replacer', () => {
@@ -258,6 +1157,303 @@ describe('encode', () => {
   });
 });
 
+describe('Encoder', () => {
+  it('should encode with its own options', () => {
+    const encoder = new Encoder({ floatPrecision: 'double' });
+
+    expect(bytesToHexString(encoder.encode(1.5))).toEqual('FB3FF8000000000000');
+    expect(bytesToHexString(encode(1.5))).toEqual('F93E00');
+  });
+
+  it('should encode with self-described tag', () => {
+    const encoder = new Encoder();
+    const result = encoder.encodeWithSelfDescribedTag([1.5]);
+
+    expect(bytesToHexString(result)).toEqual('D9D9F781F93E00');
+  });
+
+  it('should be reentrant when a replacer encodes with the same encoder', () => {
+    const encoder = new Encoder();
+    const replacer: Replacer = (value, key) =>
+      key === 'b' ? encoder.encode({ c: value }) : value;
+    const result = encoder.encode({ a: 1, b: [2, 3] }, replacer);
+
+    expect(bytesToHexString(result)).toEqual('A2616101616246A16163820203'); // { "a": 1, "b": h'A16163820203' }
+  });
+
+  it('should be reentrant when a replacer uses the default encoder', () => {
+    const replacer: Replacer = (value, key) =>
+      key === 'b' ? encode({ c: value }) : value;
+    const result = encode({ a: 1, b: [2, 3] }, replacer);
+
+    expect(bytesToHexString(result)).toEqual('A2616101616246A16163820203'); // { "a": 1, "b": h'A16163820203' }
+  });
+
+  it('should be reentrant when a tag handler encodes its content', () => {
+    const encoder: Encoder = new Encoder({
+      tags: [
+        {
+          tag: 24,
+          test: value => value instanceof Set,
+          encode: value => encoder.encode([...(value as Set<number>)]),
+        },
+      ],
+    });
+    const result = encoder.encode({ a: new Set([1, 2]), b: 3 });
+
+    expect(bytesToHexString(result)).toEqual('A26161D81843820102616203'); // { "a": 24(h'820102'), "b": 3 }
+  });
+
+  it('should be usable after an encoding error', () => {
+    const encoder = new Encoder();
+
+    expect(() => encoder.encode([1, Symbol('a')])).toThrow(
+      'Unsupported type: symbol',
+    );
+    expect(bytesToHexString(encoder.encode([1, 2]))).toEqual('820102');
+  });
+});
+
+describe('encodeInto', () => {
+  it('should write the encoded value at the offset', () => {
+    const target = new Uint8Array(8).fill(0xff);
+    const bytesWritten = encodeInto([1, 2], target, 2);
+
+    expect(bytesWritten).toBe(3);
+    expect(bytesToHexString(target)).toEqual('FFFF820102FFFFFF');
+  });
+
+  it('should write at the start by default', () => {
+    const target = new Uint8Array(3);
+
+    expect(encodeInto([1, 2], target)).toBe(3);
+    expect(bytesToHexString(target)).toEqual('820102');
+  });
+
+  it('should frame consecutive values', () => {
+    const target = new Uint8Array(16);
+    let offset = 0;
+    for (const value of [1, 'a', [true]]) {
+      offset += encodeInto(value, target, offset);
+    }
+
+    expect(bytesToHexString(target.subarray(0, offset))).toEqual('01616181F5');
+  });
+
+  it.each([
+    { size: 4, offset: 2, availableSize: 2 },
+    { size: 2, offset: 0, availableSize: 2 },
+    { size: 2, offset: 2, availableSize: 0 },
+  ])(
+    'should throw if the value does not fit in $size bytes at offset $offset',
+    ({ size, offset, availableSize }) => {
+      const target = new Uint8Array(size);
+
+      expect(() => encodeInto([1, 2], target, offset)).toThrow(
+        BufferTooSmallError,
+      );
+      expect(() => encodeInto([1, 2], target, offset)).toThrow(
+        expect.objectContaining({ requiredSize: 3, availableSize }),
+      );
+      expect(target).toEqual(new Uint8Array(size));
+    },
+  );
+
+  it.each([-1, 1.5, 5, NaN])('should reject the offset %s', offset => {
+    const target = new Uint8Array(4);
+
+    expect(() => encodeInto(1, target, offset)).toThrow(EncodingError);
+    expect(() => encodeInto(1, target, offset)).toThrow(
+      `Invalid offset: ${offset}, expected an integer between 0 and 4`,
+    );
+    expect(target).toEqual(new Uint8Array(4));
+  });
+
+  it('should apply the replacer and options', () => {
+    const target = new Uint8Array(9);
+    const replacer: Replacer = value =>
+      typeof value === 'number' ? value / 2 : value;
+    const bytesWritten = encodeInto(3, target, 0, replacer, {
+      floatPrecision: 'double',
+    });
+
+    expect(bytesWritten).toBe(9);
+    expect(bytesToHexString(target)).toEqual('FB3FF8000000000000');
+  });
+});
+
+describe('encodedLength', () => {
+  it.each(TEST_CASES)('should measure item %#', ({ value, expected }) => {
+    expect(encodedLength(value)).toBe(expected.length / 2);
+  });
+
+  it.each<{ value: CborValue; options?: EncodeOptions; replacer?: Replacer }>([
+    { value: ['é', '😀', 'a😀é€'] },
+    { value: [1.5, 1.1, 65_504.5], options: { floatPrecision: 'half' } },
+    { value: [1.5, 1.1, 65_504.5], options: { floatPrecision: 'single' } },
+    { value: [1.5, 1.1, 65_504.5], options: { floatPrecision: 'double' } },
+    { value: [-1n, -(2n ** 64n), 2n ** 32n, -(2 ** 40)] },
+    {
+      value: { b: [1, 2], aa: { c: 1.5 }, a: null },
+      options: { deterministic: true },
+    },
+    {
+      value: new Map<CborValue, CborValue>([
+        [1, 'a'],
+        [new Uint8Array([1]), [true]],
+        [[1, 2], new Map([[-1, 'b']])],
+      ]),
+      options: { deterministic: true, mapKeyOrder: 'length-first' },
+    },
+    { value: new Tagged(1_363_896_240, new Tagged(32, 'https://example.com')) },
+    {
+      value: { a: new URL('https://example.com'), b: [new URL('https://a.b')] },
+      options: {
+        tags: [
+          {
+            tag: 32,
+            test: value => value instanceof URL,
+            encode: value => (value as URL).href,
+          },
+        ],
+      },
+    },
+    {
+      value: Indefinite.map({
+        a: Indefinite.array([1, [2, 3], Indefinite.array([])]),
+        b: Indefinite.bytes([new Uint8Array(30), new Uint8Array()]),
+        c: Indefinite.text(['strea', 'ming', '😀'.repeat(10)]),
+      }),
+    },
+    {
+      value: { a: 1, b: [2, 3.5], c: 'x' },
+      replacer: (value, key) =>
+        key === 'c'
+          ? 'x'.repeat(300)
+          : typeof value === 'number'
+            ? -value
+            : value,
+    },
+  ])(
+    'should agree with encode for $value with $options',
+    ({ value, options, replacer }) => {
+      expect(encodedLength(value, replacer, options)).toBe(
+        encode(value, replacer, options).length,
+      );
+    },
+  );
+
+  it('should throw the errors of encode', () => {
+    expect(() => encodedLength({ a: [Symbol('a')] })).toThrow(
+      expect.objectContaining({
+        name: 'UnsupportedTypeError',
+        path: '$.a[0]',
+      }),
+    );
+    expect(() => encodedLength(new Tagged(2n ** 64n, 1))).toThrow(
+      'Value too large to encode: 18446744073709551616',
+    );
+    expect(() => encodedLength('\uD800')).toThrow(
+      'Text strings must not contain lone surrogates',
+    );
+    expect(() =>
+      encodedLength(Indefinite.array([]), undefined, { deterministic: true }),
+    ).toThrow(
+      'Indefinite length items are not allowed in deterministic encoding',
+    );
+    expect(() =>
+      encodedLength(
+        new Map([
+          [new Uint8Array([1]), 1],
+          [new Uint8Array([1]), 2],
+        ]),
+        undefined,
+        { deterministic: true },
+      ),
+    ).toThrow('Duplicate map key in deterministic encoding');
+  });
+
+  it('should be reentrant when a replacer measures with the same encoder', () => {
+    const encoder = new Encoder();
+    const replacer: Replacer = (value, key) =>
+      key === 'a' ? encoder.encodedLength(value) : value;
+
+    expect(encoder.encodedLength({ a: [1, 2], b: 'c' }, replacer)).toBe(
+      encoder.encode({ a: 3, b: 'c' }).length,
+    );
+  });
+});
+
+describe('Encoder.encodeView', () => {
+  it('should return a view of the internal buffer', () => {
+    const encoder = new Encoder();
+    const first = encoder.encodeView([1, 2]);
+
+    expect(bytesToHexString(first)).toEqual('820102');
+
+    const second = encoder.encodeView([3, 4]);
+
+    expect(second.buffer).toBe(first.buffer);
+    expect(bytesToHexString(first)).toEqual('820304');
+  });
+
+  it('should not share memory with the results of encode', () => {
+    const encoder = new Encoder();
+    const copy = encoder.encode([1, 2]);
+    encoder.encodeView([3, 4]);
+
+    expect(bytesToHexString(copy)).toEqual('820102');
+  });
+
+  it('should be reentrant when a replacer encodes with the same encoder', () => {
+    const encoder = new Encoder();
+    const replacer: Replacer = (value, key) =>
+      key === 'a' ? encoder.encodeView(value) : value;
+    const result = encoder.encodeView({ a: [1, 2] }, replacer);
+
+    expect(bytesToHexString(result)).toEqual('A1616143820102');
+  });
+});
+
+describe('encodeSequence', () => {
+  it('should concatenate the encoded values', () => {
+    expect(
+      bytesToHexString(encodeSequence([1, 'a', [2], { b: true }])),
+    ).toEqual('0161618102A16162F5');
+  });
+
+  it('should encode an empty sequence', () => {
+    expect(encodeSequence([])).toEqual(new Uint8Array());
+  });
+
+  it('should encode values produced lazily', () => {
+    function* values(): Generator<CborValue> {
+      yield 1;
+      yield 2;
+    }
+
+    expect(bytesToHexString(encodeSequence(values()))).toEqual('0102');
+  });
+
+  it('should apply the replacer and options to every value', () => {
+    const replacer: Replacer = value =>
+      typeof value === 'number' ? value * 2 : value;
+    const encoded = encodeSequence([1.25, [1.75]], replacer, {
+      floatPrecision: 'double',
+    });
+
+    expect(bytesToHexString(encoded)).toEqual(
+      'FB4004000000000000' + '81FB400C000000000000',
+    );
+  });
+
+  it('should round-trip with decodeSequence', () => {
+    const values = [1, 'a', [2, 3], { b: null }, new Uint8Array([4])];
+
+    expect(decodeSequence(encodeSequence(values))).toEqual(values);
+  });
+});
+
 describe('encodeWithSelfDescribedTag', () => {
   it.each(TEST_CASES)(
     'should encode item %# with self-described tag',
@@ -269,15 +1465,8 @@ describe('encodeWithSelfDescribedTag', () => {
     },
   );
 
-  it('should throw if a positive value cannot fit within 8 bytes with self-described tag', () => {
-    const value = 18_446_744_073_709_551_616n;
-    const error = 'Value too large to encode: 18446744073709551616';
-
-    expect(() => encodeWithSelfDescribedTag(value)).toThrow(error);
-  });
-
-  it('should throw if a negative value cannot fit within 8 bytes with self-described tag', () => {
-    const value = -18_446_744_073_709_551_617n;
+  it('should throw if a tag number cannot fit within 8 bytes with self-described tag', () => {
+    const value = new Tagged(18_446_744_073_709_551_616n, 1);
     const error = 'Value too large to encode: 18446744073709551616';
 
     expect(() => encodeWithSelfDescribedTag(value)).toThrow(error);
@@ -1,52 +1,13 @@
-import {
-  CborMajorType,
-  CborMap,
-  CborMinorType,
-  CborNumber,
-  CborSimple,
-  CborSimpleType,
-  CborValue,
-  ReplacedCborValue,
-  EIGHT_BYTES_MAX,
-  FOUR_BYTES_MAX,
-  ONE_BYTE_MAX,
-  TOKEN_VALUE_MAX,
-  TWO_BYTES_MAX,
-  CBOR_SELF_DESCRIBED_TAG,
-} from '../cbor-value';
-import { EncodingError } from './encoding-error';
-import { IS_LITTLE_ENDIAN, resizeUint8Array } from '../util';
+import { CborValue } from '../cbor-value';
+import { EncodeOptions, Encoder, Replacer } from './encoder';
 
-const INITIAL_BUFFER_SIZE = 2 * 1_024;
-const SAFE_BUFFER_END_OFFSET = 100;
-
-const textEncoder = new TextEncoder();
-
-function encodeMajorType(majorType: CborMajorType): number {
-  return majorType << 5;
-}
-
-let target: Uint8Array<ArrayBufferLike> = new Uint8Array(INITIAL_BUFFER_SIZE);
-let targetView = new DataView(target.buffer);
-let bytesOffset = 0;
-let mapEntries: [string, CborValue][] = [];
-
-/**
- * A function that can be used to manipulate the input before it is encoded.
- * See {@link encode} for more information.
- * @param value - The value to manipulate.
- * @param key - The current key in a map, or the current stringified index in an array.
- * @returns The manipulated value.
- */
-export type Replacer<T = any> = (
-  value: CborValue<T>,
-  key?: string,
-) => ReplacedCborValue<T>;
+const defaultEncoder = new Encoder();
 
 /**
  * Encodes a value into a CBOR byte array.
  * @param value - The value to encode.
  * @param replacer - A function that can be used to manipulate the input before it is encoded.
+ * @param options - Options that can be used to customize the encoding.
  * @returns The encoded value.
  *
  * @example Simple
@@ -60,23 +21,40 @@ export type Replacer<T = any> = (
  * const replacer: Replacer = val => (typeof val === 'number' ? val * 2 : val);
  * encode({ a: 1, b: 2 }, replacer); // returns the Uint8Array corresponding to the CBOR encoding of `{ a: 2, b: 4 }`
  * ```
+ *
+ * @example Floats
+ * ```ts
+ * encode(1.5); // returns `Uint8Array [249, 62, 0]` (which is "F93E00" in hex)
+ * encode(1.5, undefined, { floatPrecision: 'double' }); // returns the Uint8Array corresponding to "FB3FF8000000000000" in hex
+ * ```
+ *
+ * @example Tags
+ * ```ts
+ * encode(new Tagged(1, 1363896240)); // returns the Uint8Array corresponding to "C11A514B67B0" in hex
+ * encode(new URL('https://example.com'), undefined, {
+ *   tags: [{ tag: 32, test: val => val instanceof URL, encode: val => val.href }],
+ * }); // returns the Uint8Array corresponding to the tag 32 followed by the text string "https://example.com/"
+ * ```
+ *
+ * @example Dates
+ * ```ts
+ * encode(new Date('2013-03-21T20:04:00Z')); // returns the Uint8Array corresponding to "C11A514B67B0" in hex
+ * encode(new Date('2013-03-21T20:04:00Z'), undefined, { dateFormat: 'string' }); // returns the Uint8Array corresponding to the tag 0 followed by the text string "2013-03-21T20:04:00Z"
+ * ```
  */
 export function encode<T = any>(
   value: CborValue<T>,
   replacer?: Replacer<T>,
+  options?: EncodeOptions,
 ): Uint8Array {
-  bytesOffset = 0;
-
-  const transformedValue = replacer?.(value) ?? value;
-  encodeItem(transformedValue, replacer);
-
-  return target.slice(0, bytesOffset);
+  return getEncoder(options).encode(value, replacer);
 }
 
 /**
  * Encodes a value into a CBOR byte array (same as {@link encode}), but prepends the self-described CBOR tag (55799).
  * @param value - The value to encode.
  * @param replacer - A function that can be used to manipulate the input before it is encoded.
+ * @param options - Options that can be used to customize the encoding.
  * @returns The encoded value with the self-described CBOR tag.
  *
  * @example
@@ -88,200 +66,85 @@ export function encode<T = any>(
 export function encodeWithSelfDescribedTag<T = any>(
   value: CborValue<T>,
   replacer?: Replacer<T>,
+  options?: EncodeOptions,
 ): Uint8Array {
-  bytesOffset = 0;
-
-  const transformedValue = replacer?.(value) ?? value;
-  encodeTag(CBOR_SELF_DESCRIBED_TAG, transformedValue, replacer);
-
-  return target.slice(0, bytesOffset);
-}
-
-function growBuffer(minSize: number): void {
-  let newSize = target.length * 2;
-  while (newSize < minSize) {
-    newSize *= 2;
-  }
-  target = resizeUint8Array(target, newSize);
-  targetView = new DataView(target.buffer);
+  return getEncoder(options).encodeWithSelfDescribedTag(value, replacer);
 }
 
-function encodeItem(item: CborValue, replacer?: Replacer): void {
-  if (item === false || item === true || item === null || item === undefined) {
-    encodeSimple(item);
-    return;
-  }
-
-  if (typeof item === 'number' || typeof item === 'bigint') {
-    encodeNumber(item);
-    return;
-  }
-
-  if (typeof item === 'string') {
-    encodeTextString(item);
-    return;
-  }
-
-  if (item instanceof Uint8Array) {
-    encodeByteString(item);
-    return;
-  }
-
-  if (item instanceof ArrayBuffer) {
-    encodeByteString(new Uint8Array(item));
-    return;
-  }
-
-  if (Array.isArray(item)) {
-    encodeArray(item, replacer);
-    return;
-  }
-
-  if (typeof item === 'object') {
-    encodeMap(item, replacer);
-    return;
-  }
-
-  throw new EncodingError(`Unsupported type: ${typeof item}`);
-}
-
-function encodeArray(items: CborValue[], replacer?: Replacer): void {
-  encodeHeader(CborMajorType.Array, items.length);
-
-  items.forEach((item, i) => {
-    encodeItem(replacer?.(item, i.toString()) ?? item, replacer);
-  });
-}
-
-function encodeMap(map: CborMap, replacer?: Replacer): void {
-  mapEntries = Object.entries(map);
-
-  encodeHeader(CborMajorType.Map, mapEntries.length);
-
-  mapEntries.forEach(([key, value]) => {
-    encodeTextString(key);
-    encodeItem(replacer?.(value, key) ?? value, replacer);
-  });
-}
-
-function encodeHeader(majorType: CborMajorType, value: CborNumber): void {
-  if (bytesOffset > target.length - SAFE_BUFFER_END_OFFSET) {
-    growBuffer(bytesOffset + SAFE_BUFFER_END_OFFSET);
-  }
-
-  if (value <= TOKEN_VALUE_MAX) {
-    targetView.setUint8(
-      bytesOffset++,
-      encodeMajorType(majorType) | Number(value),
-    );
-    return;
-  }
-
-  if (value <= ONE_BYTE_MAX) {
-    targetView.setUint8(
-      bytesOffset++,
-      encodeMajorType(majorType) | CborMinorType.OneByte,
-    );
-    targetView.setUint8(bytesOffset, Number(value));
-    bytesOffset += 1;
-    return;
-  }
-
-  if (value <= TWO_BYTES_MAX) {
-    targetView.setUint8(
-      bytesOffset++,
-      encodeMajorType(majorType) | CborMinorType.TwoBytes,
-    );
-    targetView.setUint16(bytesOffset, Number(value), IS_LITTLE_ENDIAN);
-    bytesOffset += 2;
-    return;
-  }
-
-  if (value <= FOUR_BYTES_MAX) {
-    targetView.setUint8(
-      bytesOffset++,
-      encodeMajorType(majorType) | CborMinorType.FourBytes,
-    );
-    targetView.setUint32(bytesOffset, Number(value), IS_LITTLE_ENDIAN);
-    bytesOffset += 4;
-    return;
-  }
-
-  if (value <= EIGHT_BYTES_MAX) {
-    targetView.setUint8(
-      bytesOffset++,
-      encodeMajorType(majorType) | CborMinorType.EightBytes,
-    );
-    targetView.setBigUint64(bytesOffset, BigInt(value), IS_LITTLE_ENDIAN);
-    bytesOffset += 8;
-    return;
-  }
-
-  throw new EncodingError(`Value too large to encode: ${value}`);
-}
-
-function encodeSimple(value: CborSimple): void {
-  encodeHeader(CborMajorType.Simple, mapSimple(value));
-}
-
-function mapSimple(value: CborSimple): CborSimpleType {
-  if (value === false) {
-    return CborSimpleType.False;
-  }
-
-  if (value === true) {
-    return CborSimpleType.True;
-  }
-
-  if (value === null) {
-    return CborSimpleType.Null;
-  }
-
-  if (value === undefined) {
-    return CborSimpleType.Undefined;
-  }
-
-  throw new EncodingError(`Unrecognized simple value: ${value.toString()}`);
-}
-
-function encodeBytes(majorType: CborMajorType, value: Uint8Array): void {
-  encodeHeader(majorType, value.length);
-
-  if (bytesOffset > target.length - value.length) {
-    growBuffer(bytesOffset + value.length);
-  }
-  target.set(value, bytesOffset);
-  bytesOffset += value.length;
-}
-
-function encodeInteger(majorType: CborMajorType, value: CborNumber): void {
-  encodeHeader(majorType, value);
-}
-
-function encodeUnsignedInteger(value: CborNumber): void {
-  encodeInteger(CborMajorType.UnsignedInteger, value);
-}
-
-function encodeNegativeInteger(value: CborNumber): void {
-  encodeInteger(
-    CborMajorType.NegativeInteger,
-    typeof value === 'bigint' ? -1n - value : -1 - value,
-  );
-}
-
-function encodeNumber(value: CborNumber): void {
-  value >= 0 ? encodeUnsignedInteger(value) : encodeNegativeInteger(value);
+/**
+ * Encodes values into a CBOR sequence: the concatenation of their encodings, without an enclosing array.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8742.html}
+ * @param values - The values to encode.
+ * @param replacer - A function that can be used to manipulate the input before it is encoded.
+ * @param options - Options that can be used to customize the encoding.
+ * @returns The encoded sequence.
+ *
+ * @example
+ * ```ts
+ * encodeSequence([1, 'a', [2]]); // returns the Uint8Array corresponding to "0161618102" in hex
+ * ```
+ */
+export function encodeSequence<T = any>(
+  values: Iterable<CborValue<T>>,
+  replacer?: Replacer<T>,
+  options?: EncodeOptions,
+): Uint8Array {
+  return getEncoder(options).encodeSequence(values, replacer);
 }
 
-function encodeTextString(value: string): void {
-  encodeBytes(CborMajorType.TextString, textEncoder.encode(value));
+/**
+ * Encodes a value into a caller-supplied buffer, without allocating a new byte array for the result.
+ * The value is encoded into the internal buffer of the encoder first, and then copied into `target`.
+ * @param value - The value to encode.
+ * @param target - The buffer to write the encoded value to.
+ * @param offset - The offset in `target` where the encoded value is written.
+ * @param replacer - A function that can be used to manipulate the input before it is encoded.
+ * @param options - Options that can be used to customize the encoding.
+ * @returns The number of bytes written.
+ * @throws {@link EncodingError} if `offset` is not an integer between 0 and the length of `target`.
+ * @throws {@link BufferTooSmallError} if the encoded value does not fit in `target` after `offset`.
+ * Nothing is written in this case, and the error reports the required size.
+ *
+ * @example
+ * ```ts
+ * const target = new Uint8Array(1_024);
+ * const bytesWritten = encodeInto([1, 2], target, 4); // returns `3`, and writes "820102" in hex at target[4..7]
+ * ```
+ */
+export function encodeInto<T = any>(
+  value: CborValue<T>,
+  target: Uint8Array,
+  offset = 0,
+  replacer?: Replacer<T>,
+  options?: EncodeOptions,
+): number {
+  return getEncoder(options).encodeInto(value, target, offset, replacer);
 }
 
-function encodeByteString(value: Uint8Array): void {
-  encodeBytes(CborMajorType.ByteString, value);
+/**
+ * Computes the size in bytes of the encoding of a value, without encoding it:
+ * the length of the byte array returned by {@link encode} for the same value and options.
+ * The replacer and the `encode` function of tag handlers are called as they are when encoding,
+ * and the items of {@link Indefinite} values are iterated, so single-use iterables such as generators are consumed.
+ * @param value - The value to measure.
+ * @param replacer - A function that can be used to manipulate the input before it is measured.
+ * @param options - Options that can be used to customize the encoding.
+ * @returns The size in bytes of the encoded value.
+ *
+ * @example
+ * ```ts
+ * encodedLength({ a: [1, 2] }); // returns `6`, the length of "A16161820102" in hex
+ * encodedLength(1.5, undefined, { floatPrecision: 'double' }); // returns `9`
+ * ```
+ */
+export function encodedLength<T = any>(
+  value: CborValue<T>,
+  replacer?: Replacer<T>,
+  options?: EncodeOptions,
+): number {
+  return getEncoder(options).encodedLength(value, replacer);
 }
 
-function encodeTag(tag: number, value: CborValue, replacer?: Replacer): void {
-  encodeHeader(CborMajorType.Tag, tag);
-  encodeItem(value, replacer);
+function getEncoder(options?: EncodeOptions): Encoder {
+  return options ? new Encoder(options) : defaultEncoder;
 }
@@ -0,0 +1,1403 @@
+import {
+  CborMajorType,
+  CborMap,
+  CborMinorType,
+  CborNumber,
+  CborSimple,
+  CborSimpleType,
+  CborValue,
+  ReplacedCborValue,
+  EIGHT_BYTES_MAX,
+  FOUR_BYTES_MAX,
+  ONE_BYTE_MAX,
+  TOKEN_VALUE_MAX,
+  TWO_BYTES_MAX,
+  CBOR_SELF_DESCRIBED_TAG,
+  CborTag,
+  MapKeyOrder,
+  TypedArray,
+} from '../cbor-value';
+import {
+  BufferTooSmallError,
+  EncodingError,
+  UnsupportedTypeError,
+} from './encoding-error';
+import { CborEncodable, TagHandler, Tagged } from '../tagged';
+import { Indefinite } from '../indefinite';
+import { MultiDimensionalArray } from '../multi-dimensional-array';
+import { Simple } from '../simple';
+import {
+  IS_LITTLE_ENDIAN,
+  bigIntByteLength,
+  bigIntToBytes,
+  compareBytes,
+  compareBytesLengthFirst,
+  dateToEpochSeconds,
+  formatDateTime,
+  hasLoneSurrogates,
+  isHalfPrecision,
+  isNotNil,
+  isSinglePrecision,
+  isTypedArray,
+  isValidDate,
+  numberToHalfBits,
+  ROOT_PATH,
+  completeErrorPath,
+  prependErrorPathSegment,
+  resizeUint8Array,
+  stringifyMapKey,
+  typedArrayToTaggedBytes,
+  utf8ByteLength,
+} from '../util';
+
+const INITIAL_BUFFER_SIZE = 2 * 1_024;
+const SAFE_BUFFER_END_OFFSET = 100;
+
+const textEncoder = new TextEncoder();
+
+const FLOAT_BYTE_LENGTHS: Record<
+  Exclude<FloatPrecision, 'shortest'>,
+  number
+> = { half: 2, single: 4, double: 8 };
+
+function encodeMajorType(majorType: CborMajorType): number {
+  return majorType << 5;
+}
+
+type TagEncoder = Required<Pick<TagHandler, 'tag' | 'test' | 'encode'>>;
+
+function isTagEncoder(handler: TagHandler): handler is TagEncoder {
+  return isNotNil(handler.test) && isNotNil(handler.encode);
+}
+
+function isCborEncodable(value: unknown): value is CborEncodable {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Partial<CborEncodable>).toCBOR === 'function'
+  );
+}
+
+/**
+ * An object classified by how it is encoded, so that encoding and measuring it follow the same rules.
+ */
+type ObjectType =
+  | 'encodable'
+  | 'byteString'
+  | 'arrayBuffer'
+  | 'typedArray'
+  | 'array'
+  | 'simple'
+  | 'date'
+  | 'tagged'
+  | 'set'
+  | 'indefinite'
+  | 'multiDimensionalArray'
+  | 'map';
+
+/**
+ * The precision used to encode floating-point numbers.
+ * - `shortest`: the shortest of half, single or double precision that represents the number exactly.
+ * - `half`: half precision (16 bits), rounding to the nearest representable value.
+ * - `single`: single precision (32 bits), rounding to the nearest representable value.
+ * - `double`: double precision (64 bits).
+ */
+export type FloatPrecision = 'shortest' | 'half' | 'single' | 'double';
+
+/**
+ * The tag used to encode `Date` values.
+ * - `epoch`: tag 1, the number of seconds since the epoch, as an integer or, if the date has milliseconds, a float.
+ * - `string`: tag 0, an RFC 3339 date-time string in UTC, such as `2013-03-21T20:04:00Z`.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8949.html#section-3.4.1}
+ */
+export type DateFormat = 'epoch' | 'string';
+
+/**
+ * Options that can be used to customize the encoding.
+ * See {@link Encoder} for more information.
+ */
+export interface EncodeOptions {
+  /**
+   * The precision used to encode numbers that are not integers, such as `1.5`, `NaN`, `Infinity` or `-0`.
+   * Integers are always encoded as CBOR integers, regardless of this option.
+   * @default 'shortest'
+   */
+  floatPrecision?: FloatPrecision;
+  /**
+   * Handlers used to encode values as tagged items.
+   * A value is encoded with the first handler whose `test` function returns `true` for it.
+   * Handlers without `test` and `encode` functions are ignored.
+   */
+  tags?: TagHandler[];
+  /**
+   * Encodes values deterministically, as specified by RFC 8949 §4.2, so that the same value always produces the same bytes.
+   * Map keys and the elements of sets are sorted by their encoded bytes (see `mapKeyOrder`),
+   * and integers, lengths and floats always use their shortest form.
+   * {@link Indefinite} values are rejected.
+   * Cannot be combined with a `floatPrecision` other than `'shortest'`.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc8949.html#section-4.2}
+   * @default false
+   */
+  deterministic?: boolean;
+  /**
+   * The order of map keys and set elements when encoding deterministically. Ignored otherwise.
+   * @default 'bytewise'
+   */
+  mapKeyOrder?: MapKeyOrder;
+  /**
+   * The tag used to encode `Date` values.
+   * The seconds of `epoch` dates are always encoded losslessly, regardless of `floatPrecision`.
+   * @default 'epoch'
+   */
+  dateFormat?: DateFormat;
+  /**
+   * Omits the properties of objects whose value is `undefined`, like `JSON.stringify` does,
+   * instead of encoding them as CBOR `undefined`. The entries of `Map` values are always encoded.
+   * @default false
+   */
+  omitUndefinedProperties?: boolean;
+  /**
+   * Encodes `Set` values as arrays with the tag 258, which are decoded back into `Set` values.
+   * Without this option, sets are encoded like other objects, as empty maps.
+   * @see {@link https://github.com/input-output-hk/cbor-sets-spec/blob/master/CBOR_SETS.md}
+   * @default false
+   */
+  useSets?: boolean;
+}
+
+/**
+ * A function that can be used to manipulate the input before it is encoded.
+ * See {@link encode} for more information.
+ * @param value - The value to manipulate.
+ * @param key - The current key in a map, or the current stringified index in an array.
+ * @returns The manipulated value.
+ */
+export type Replacer<T = any> = (
+  value: CborValue<T>,
+  key?: string,
+) => ReplacedCborValue<T>;
+
+/**
+ * A CBOR encoder that owns its buffer and options.
+ * Encoders are reentrant: a {@link Replacer} or a {@link TagHandler} can safely encode other values,
+ * with the same encoder or a different one, while an encoding is in progress.
+ *
+ * @example
+ * ```ts
+ * const encoder = new Encoder({ floatPrecision: 'double' });
+ * encoder.encode(1.5); // returns the Uint8Array corresponding to "FB3FF8000000000000" in hex
+ * ```
+ */
+export class Encoder {
+  private target: Uint8Array<ArrayBufferLike> = new Uint8Array(
+    INITIAL_BUFFER_SIZE,
+  );
+  private targetView = new DataView(this.target.buffer);
+  private bytesOffset = 0;
+  private encoding = false;
+  private readonly floatPrecision: FloatPrecision;
+  private readonly tagEncoders: TagEncoder[];
+  private readonly deterministic: boolean;
+  private readonly dateFormat: DateFormat;
+  private readonly omitUndefinedProperties: boolean;
+  private readonly useSets: boolean;
+  private readonly compareKeys: (a: Uint8Array, b: Uint8Array) => number;
+
+  /**
+   * @param options - Options that can be used to customize the encoding.
+   * @throws {@link EncodingError} if the options are incompatible with each other.
+   */
+  constructor(private readonly options: EncodeOptions = {}) {
+    this.floatPrecision = options.floatPrecision ?? 'shortest';
+    this.tagEncoders = (options.tags ?? []).filter(isTagEncoder);
+    this.deterministic = options.deterministic ?? false;
+    this.dateFormat = options.dateFormat ?? 'epoch';
+    this.omitUndefinedProperties = options.omitUndefinedProperties ?? false;
+    this.useSets = options.useSets ?? false;
+    this.compareKeys =
+      options.mapKeyOrder === 'length-first'
+        ? compareBytesLengthFirst
+        : compareBytes;
+
+    if (this.deterministic && this.floatPrecision !== 'shortest') {
+      throw new EncodingError(
+        `Float precision "${this.floatPrecision}" is not allowed in deterministic encoding`,
+      );
+    }
+  }
+
+  /**
+   * Encodes a value into a CBOR byte array.
+   * @param value - The value to encode.
+   * @param replacer - A function that can be used to manipulate the input before it is encoded.
+   * @returns The encoded value.
+   */
+  encode<T = any>(value: CborValue<T>, replacer?: Replacer<T>): Uint8Array {
+    return this.encodeView(value, replacer).slice();
+  }
+
+  /**
+   * Encodes a value into a view of the encoder's internal buffer, without copying the encoded bytes.
+   * The view is only valid until the next encoding with this encoder, which overwrites its content:
+   * use it right away, or use {@link Encoder.encode} to get a copy.
+   * @param value - The value to encode.
+   * @param replacer - A function that can be used to manipulate the input before it is encoded.
+   * @returns A view of the encoded value.
+   */
+  encodeView<T = any>(value: CborValue<T>, replacer?: Replacer<T>): Uint8Array {
+    if (this.encoding) {
+      return new Encoder(this.options).encodeView(value, replacer);
+    }
+
+    return this.run(() => {
+      const transformedValue = replacer?.(value) ?? value;
+      this.encodeItem(transformedValue, replacer);
+    });
+  }
+
+  /**
+   * Encodes a value into a caller-supplied buffer.
+   * The value is encoded into the internal buffer of the encoder first, and then copied into `target`.
+   * @param value - The value to encode.
+   * @param target - The buffer to write the encoded value to.
+   * @param offset - The offset in `target` where the encoded value is written.
+   * @param replacer - A function that can be used to manipulate the input before it is encoded.
+   * @returns The number of bytes written.
+   * @throws {@link EncodingError} if `offset` is not an integer between 0 and the length of `target`.
+   * @throws {@link BufferTooSmallError} if the encoded value does not fit in `target` after `offset`.
+   * Nothing is written in this case, and the error reports the required size.
+   */
+  encodeInto<T = any>(
+    value: CborValue<T>,
+    target: Uint8Array,
+    offset = 0,
+    replacer?: Replacer<T>,
+  ): number {
+    if (!Number.isInteger(offset) || offset < 0 || offset > target.length) {
+      throw new EncodingError(
+        `Invalid offset: ${offset}, expected an integer between 0 and ${target.length}`,
+      );
+    }
+
+    const encodedValue = this.encodeView(value, replacer);
+    const availableSize = target.length - offset;
+
+    if (encodedValue.length > availableSize) {
+      throw new BufferTooSmallError(encodedValue.length, availableSize);
+    }
+
+    target.set(encodedValue, offset);
+    return encodedValue.length;
+  }
+
+  /**
+   * Encodes a value into a CBOR byte array (same as {@link Encoder.encode}), but prepends the self-described CBOR tag (55799).
+   * @param value - The value to encode.
+   * @param replacer - A function that can be used to manipulate the input before it is encoded.
+   * @returns The encoded value with the self-described CBOR tag.
+   */
+  encodeWithSelfDescribedTag<T = any>(
+    value: CborValue<T>,
+    replacer?: Replacer<T>,
+  ): Uint8Array {
+    if (this.encoding) {
+      return new Encoder(this.options).encodeWithSelfDescribedTag(
+        value,
+        replacer,
+      );
+    }
+
+    return this.run(() => {
+      const transformedValue = replacer?.(value) ?? value;
+      this.encodeTag(CBOR_SELF_DESCRIBED_TAG, transformedValue, replacer);
+    }).slice();
+  }
+
+  /**
+   * Encodes values into a CBOR sequence: the concatenation of their encodings, without an enclosing array.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc8742.html}
+   * @param values - The values to encode.
+   * @param replacer - A function that can be used to manipulate the input before it is encoded.
+   * @returns The encoded sequence.
+   */
+  encodeSequence<T = any>(
+    values: Iterable<CborValue<T>>,
+    replacer?: Replacer<T>,
+  ): Uint8Array {
+    if (this.encoding) {
+      return new Encoder(this.options).encodeSequence(values, replacer);
+    }
+
+    return this.run(() => {
+      for (const value of values) {
+        const transformedValue = replacer?.(value) ?? value;
+        this.encodeItem(transformedValue, replacer);
+      }
+    }).slice();
+  }
+
+  /**
+   * Computes the size in bytes of the encoding of a value, without encoding it:
+   * the length of the byte array returned by {@link Encoder.encode} for the same value.
+   * The replacer and the `encode` function of tag handlers are called as they are when encoding,
+   * and the items of {@link Indefinite} values are iterated, so single-use iterables such as generators are consumed.
+   * @param value - The value to measure.
+   * @param replacer - A function that can be used to manipulate the input before it is measured.
+   * @returns The size in bytes of the encoded value.
+   */
+  encodedLength<T = any>(value: CborValue<T>, replacer?: Replacer<T>): number {
+    if (this.encoding) {
+      return new Encoder(this.options).encodedLength(value, replacer);
+    }
+
+    this.encoding = true;
+    this.bytesOffset = 0;
+
+    try {
+      return this.measureItem(replacer?.(value) ?? value, replacer);
+    } catch (error) {
+      if (error instanceof EncodingError) {
+        completeErrorPath(error);
+      }
+      throw error;
+    } finally {
+      this.encoding = false;
+    }
+  }
+
+  private run(encodeFn: () => void): Uint8Array {
+    this.encoding = true;
+    this.bytesOffset = 0;
+
+    try {
+      encodeFn();
+
+      return this.target.subarray(0, this.bytesOffset);
+    } catch (error) {
+      if (error instanceof EncodingError) {
+        completeErrorPath(error);
+      }
+      throw error;
+    } finally {
+      this.encoding = false;
+    }
+  }
+
+  private growBuffer(minSize: number): void {
+    let newSize = this.target.length * 2;
+    while (newSize < minSize) {
+      newSize *= 2;
+    }
+    this.target = resizeUint8Array(this.target, newSize);
+    this.targetView = new DataView(this.target.buffer);
+  }
+
+  private encodeItem(item: CborValue, replacer?: Replacer): void {
+    const tagEncoder = this.findTagEncoder(item);
+    if (tagEncoder) {
+      this.encodeTag(tagEncoder.tag, tagEncoder.encode(item), replacer);
+      return;
+    }
+
+    switch (typeof item) {
+      case 'boolean':
+      case 'undefined':
+        this.encodeSimple(item);
+        return;
+
+      case 'number':
+      case 'bigint':
+        this.encodeNumber(item);
+        return;
+
+      case 'string':
+        this.encodeTextString(item);
+        return;
+
+      case 'object':
+        if (item === null) {
+          this.encodeSimple(item);
+        } else {
+          this.encodeObject(item, replacer);
+        }
+        return;
+    }
+
+    throw new UnsupportedTypeError(typeof item, ROOT_PATH);
+  }
+
+  private encodeObject(item: object, replacer?: Replacer): void {
+    switch (this.classifyObject(item)) {
+      case 'encodable':
+        this.encodeItem((item as CborEncodable).toCBOR(), replacer);
+        return;
+
+      case 'byteString':
+        this.encodeByteString(item as Uint8Array);
+        return;
+
+      case 'arrayBuffer':
+        this.encodeByteString(new Uint8Array(item as ArrayBuffer));
+        return;
+
+      case 'typedArray': {
+        const { tag, bytes } = this.typedArrayToTaggedBytes(item as TypedArray);
+        this.encodeHeader(CborMajorType.Tag, tag);
+        this.encodeByteString(bytes);
+        return;
+      }
+
+      case 'array':
+        this.encodeArray(item as CborValue[], replacer);
+        return;
+
+      case 'simple':
+        this.encodeHeader(
+          CborMajorType.Simple,
+          this.checkSimple(item as Simple),
+        );
+        return;
+
+      case 'date':
+        this.encodeDate(item as Date);
+        return;
+
+      case 'tagged':
+        this.encodeTag((item as Tagged).tag, (item as Tagged).value, replacer);
+        return;
+
+      case 'set':
+        this.encodeSet(item as Set<CborValue>, replacer);
+        return;
+
+      case 'indefinite':
+        this.encodeIndefinite(item as Indefinite, replacer);
+        return;
+
+      case 'multiDimensionalArray':
+        this.encodeTag(
+          CborTag.MultiDimensionalArray,
+          this.multiDimensionalArrayToContent(item as MultiDimensionalArray),
+          replacer,
+        );
+        return;
+
+      case 'map':
+        this.encodeMap(this.mapEntries(item as CborMap), replacer);
+        return;
+    }
+  }
+
+  private findTagEncoder(item: CborValue): TagEncoder | undefined {
+    return this.tagEncoders.length > 0
+      ? this.tagEncoders.find(({ test }) => test(item))
+      : undefined;
+  }
+
+  /**
+   * Classifies an object by how it is encoded.
+   * Shared by {@link Encoder.encodeObject} and {@link Encoder.measureObject}, so that the two always agree.
+   */
+  private classifyObject(item: object): ObjectType {
+    if (isCborEncodable(item)) {
+      return 'encodable';
+    }
+
+    if (Array.isArray(item)) {
+      return 'array';
+    }
+
+    // plain objects are the most common maps, and can't be any of the classes below
+    if (Object.getPrototypeOf(item) === Object.prototype) {
+      return 'map';
+    }
+
+    if (item instanceof Uint8Array) {
+      return 'byteString';
+    }
+
+    if (item instanceof ArrayBuffer) {
+      return 'arrayBuffer';
+    }
+
+    if (isTypedArray(item)) {
+      return 'typedArray';
+    }
+
+    if (item instanceof Simple) {
+      return 'simple';
+    }
+
+    if (item instanceof Date) {
+      return 'date';
+    }
+
+    if (item instanceof Tagged) {
+      return 'tagged';
+    }
+
+    if (item instanceof Set && this.useSets) {
+      return 'set';
+    }
+
+    if (item instanceof Indefinite) {
+      return 'indefinite';
+    }
+
+    if (item instanceof MultiDimensionalArray) {
+      return 'multiDimensionalArray';
+    }
+
+    return 'map';
+  }
+
+  private encodeArray(items: CborValue[], replacer?: Replacer): void {
+    this.encodeHeader(CborMajorType.Array, items.length);
+
+    for (let i = 0; i < items.length; i++) {
+      this.encodeNestedItem(items[i], i, replacer);
+    }
+  }
+
+  /**
+   * Encodes an array item or a map value, with the index or key it is found at.
+   */
+  private encodeNestedItem(
+    item: CborValue,
+    keyOrIndex: CborValue,
+    replacer?: Replacer,
+  ): void {
+    const transformedItem =
+      replacer?.(item, stringifyMapKey(keyOrIndex)) ?? item;
+
+    try {
+      this.encodeItem(transformedItem, replacer);
+    } catch (error) {
+      if (error instanceof EncodingError) {
+        prependErrorPathSegment(error, keyOrIndex);
+      }
+      throw error;
+    }
+  }
+
+  private encodeMap(
+    mapEntries: [CborValue, CborValue][],
+    replacer?: Replacer,
+  ): void {
+    this.encodeHeader(CborMajorType.Map, mapEntries.length);
+
+    if (this.deterministic) {
+      this.sortMapEntries(mapEntries).forEach(({ key, encodedKey, value }) => {
+        this.writeBytes(encodedKey);
+        this.encodeNestedItem(value, key, replacer);
+      });
+      return;
+    }
+
+    for (const [key, value] of mapEntries) {
+      this.encodeItem(key);
+      this.encodeNestedItem(value, key, replacer);
+    }
+  }
+
+  private mapEntries(
+    map: CborMap | Map<CborValue, CborValue>,
+  ): [CborValue, CborValue][] {
+    if (map instanceof Map) {
+      return [...map.entries()];
+    }
+
+    const entries = Object.entries(map);
+    return this.omitUndefinedProperties
+      ? entries.filter(([, value]) => value !== undefined)
+      : entries;
+  }
+
+  /**
+   * Encodes the keys of map entries and sorts the entries by their encoded keys, for deterministic encoding.
+   * The keys are encoded after the end of the output, which is left unchanged.
+   */
+  private sortMapEntries(
+    mapEntries: [CborValue, CborValue][],
+  ): { key: CborValue; encodedKey: Uint8Array; value: CborValue }[] {
+    const sortedEntries = mapEntries
+      .map(([key, value]) => {
+        const keyOffset = this.bytesOffset;
+        this.encodeItem(key);
+        const encodedKey = this.target.slice(keyOffset, this.bytesOffset);
+        this.bytesOffset = keyOffset;
+
+        return { key, encodedKey, value };
+      })
+      .sort((a, b) => this.compareKeys(a.encodedKey, b.encodedKey));
+
+    sortedEntries.forEach(({ encodedKey }, i) => {
+      if (
+        i > 0 &&
+        compareBytes(sortedEntries[i - 1].encodedKey, encodedKey) === 0
+      ) {
+        throw new EncodingError(
+          'Duplicate map key in deterministic encoding',
+          ROOT_PATH,
+        );
+      }
+    });
+
+    return sortedEntries;
+  }
+
+  private encodeSet(set: Set<CborValue>, replacer?: Replacer): void {
+    if (!this.deterministic) {
+      this.encodeTag(CborTag.Set, [...set], replacer);
+      return;
+    }
+
+    this.encodeHeader(CborMajorType.Tag, CborTag.Set);
+    this.encodeHeader(CborMajorType.Array, set.size);
+    this.sortSetElements(set, replacer).forEach(encodedElement => {
+      this.writeBytes(encodedElement);
+    });
+  }
+
+  /**
+   * Encodes the elements of a set and sorts them by their encoded bytes, in the same order as map keys, for deterministic encoding.
+   * The elements are encoded after the end of the output, which is left unchanged.
+   */
+  private sortSetElements(
+    set: Set<CborValue>,
+    replacer?: Replacer,
+  ): Uint8Array[] {
+    const sortedElements = [...set]
+      .map((element, i) => {
+        const elementOffset = this.bytesOffset;
+        this.encodeNestedItem(element, i, replacer);
+        const encodedElement = this.target.slice(
+          elementOffset,
+          this.bytesOffset,
+        );
+        this.bytesOffset = elementOffset;
+
+        return encodedElement;
+      })
+      .sort(this.compareKeys);
+
+    sortedElements.forEach((encodedElement, i) => {
+      if (i > 0 && compareBytes(sortedElements[i - 1], encodedElement) === 0) {
+        throw new EncodingError(
+          'Duplicate set element in deterministic encoding',
+          ROOT_PATH,
+        );
+      }
+    });
+
+    return sortedElements;
+  }
+
+  private encodeIndefinite(item: Indefinite, replacer?: Replacer): void {
+    if (this.deterministic) {
+      throw new EncodingError(
+        'Indefinite length items are not allowed in deterministic encoding',
+        ROOT_PATH,
+      );
+    }
+
+    this.encodeIndefiniteHeader(item.majorType);
+
+    let i = 0;
+    for (const value of item.items) {
+      switch (item.majorType) {
+        case CborMajorType.Array: {
+          this.encodeNestedItem(value as CborValue, i++, replacer);
+          break;
+        }
+
+        case CborMajorType.Map: {
+          const [key, mapValue] = this.checkMapEntry(value);
+          this.encodeItem(key);
+          this.encodeNestedItem(mapValue, key, replacer);
+          break;
+        }
+
+        case CborMajorType.ByteString: {
+          this.encodeByteString(this.checkByteStringChunk(value));
+          break;
+        }
+
+        case CborMajorType.TextString: {
+          this.encodeTextString(this.checkTextStringChunk(value));
+          break;
+        }
+      }
+    }
+
+    this.encodeBreak();
+  }
+
+  private checkMapEntry(entry: unknown): [CborValue, CborValue] {
+    if (!Array.isArray(entry) || entry.length !== 2) {
+      throw new EncodingError(
+        'Indefinite length map entries must be [key, value] pairs',
+        ROOT_PATH,
+      );
+    }
+
+    return entry as [CborValue, CborValue];
+  }
+
+  private checkTag(tag: CborNumber): CborNumber {
+    if (
+      typeof tag === 'number' ? !Number.isInteger(tag) || tag < 0 : tag < 0n
+    ) {
+      throw new EncodingError(
+        `Tag numbers must be non-negative integers: ${tag}`,
+        ROOT_PATH,
+      );
+    }
+
+    if (tag > EIGHT_BYTES_MAX) {
+      throw new EncodingError(`Value too large to encode: ${tag}`, ROOT_PATH);
+    }
+
+    return tag;
+  }
+
+  private checkByteStringChunk(chunk: unknown): Uint8Array {
+    if (!(chunk instanceof Uint8Array)) {
+      throw new EncodingError(
+        'Indefinite length byte string chunks must be Uint8Arrays',
+        ROOT_PATH,
+      );
+    }
+
+    return chunk;
+  }
+
+  private checkTextStringChunk(chunk: unknown): string {
+    if (typeof chunk !== 'string') {
+      throw new EncodingError(
+        'Indefinite length text string chunks must be strings',
+        ROOT_PATH,
+      );
+    }
+
+    return chunk;
+  }
+
+  private encodeIndefiniteHeader(majorType: CborMajorType): void {
+    this.encodeInitialByte(majorType, CborMinorType.Indefinite);
+  }
+
+  private encodeBreak(): void {
+    this.encodeInitialByte(CborMajorType.Simple, CborSimpleType.Break);
+  }
+
+  private encodeInitialByte(majorType: CborMajorType, info: number): void {
+    if (this.bytesOffset > this.target.length - SAFE_BUFFER_END_OFFSET) {
+      this.growBuffer(this.bytesOffset + SAFE_BUFFER_END_OFFSET);
+    }
+
+    this.targetView.setUint8(
+      this.bytesOffset++,
+      encodeMajorType(majorType) | info,
+    );
+  }
+
+  private encodeHeader(majorType: CborMajorType, value: CborNumber): void {
+    if (this.bytesOffset > this.target.length - SAFE_BUFFER_END_OFFSET) {
+      this.growBuffer(this.bytesOffset + SAFE_BUFFER_END_OFFSET);
+    }
+
+    if (value <= TOKEN_VALUE_MAX) {
+      this.targetView.setUint8(
+        this.bytesOffset++,
+        encodeMajorType(majorType) | Number(value),
+      );
+      return;
+    }
+
+    if (value <= ONE_BYTE_MAX) {
+      this.targetView.setUint8(
+        this.bytesOffset++,
+        encodeMajorType(majorType) | CborMinorType.OneByte,
+      );
+      this.targetView.setUint8(this.bytesOffset, Number(value));
+      this.bytesOffset += 1;
+      return;
+    }
+
+    if (value <= TWO_BYTES_MAX) {
+      this.targetView.setUint8(
+        this.bytesOffset++,
+        encodeMajorType(majorType) | CborMinorType.TwoBytes,
+      );
+      this.targetView.setUint16(
+        this.bytesOffset,
+        Number(value),
+        IS_LITTLE_ENDIAN,
+      );
+      this.bytesOffset += 2;
+      return;
+    }
+
+    if (value <= FOUR_BYTES_MAX) {
+      this.targetView.setUint8(
+        this.bytesOffset++,
+        encodeMajorType(majorType) | CborMinorType.FourBytes,
+      );
+      this.targetView.setUint32(
+        this.bytesOffset,
+        Number(value),
+        IS_LITTLE_ENDIAN,
+      );
+      this.bytesOffset += 4;
+      return;
+    }
+
+    if (value <= EIGHT_BYTES_MAX) {
+      this.targetView.setUint8(
+        this.bytesOffset++,
+        encodeMajorType(majorType) | CborMinorType.EightBytes,
+      );
+      this.targetView.setBigUint64(
+        this.bytesOffset,
+        BigInt(value),
+        IS_LITTLE_ENDIAN,
+      );
+      this.bytesOffset += 8;
+      return;
+    }
+
+    throw new EncodingError(`Value too large to encode: ${value}`, ROOT_PATH);
+  }
+
+  private encodeSimple(value: CborSimple): void {
+    this.encodeHeader(CborMajorType.Simple, mapSimple(value));
+  }
+
+  private checkSimple(simple: Simple): number {
+    if (!simple.isValid()) {
+      throw new EncodingError(
+        `Invalid simple value: ${simple.value}, expected an integer in the ranges 0-19 or 32-255`,
+        ROOT_PATH,
+      );
+    }
+
+    return simple.value;
+  }
+
+  private encodeBytes(majorType: CborMajorType, value: Uint8Array): void {
+    this.encodeHeader(majorType, value.length);
+    this.writeBytes(value);
+  }
+
+  private writeBytes(value: Uint8Array): void {
+    if (this.bytesOffset > this.target.length - value.length) {
+      this.growBuffer(this.bytesOffset + value.length);
+    }
+    this.target.set(value, this.bytesOffset);
+    this.bytesOffset += value.length;
+  }
+
+  private encodeInteger(majorType: CborMajorType, value: CborNumber): void {
+    this.encodeHeader(majorType, value);
+  }
+
+  private encodeUnsignedInteger(value: CborNumber): void {
+    this.encodeInteger(CborMajorType.UnsignedInteger, value);
+  }
+
+  private encodeNegativeInteger(value: CborNumber): void {
+    this.encodeInteger(CborMajorType.NegativeInteger, negativeArgument(value));
+  }
+
+  private encodeNumber(value: CborNumber): void {
+    if (typeof value === 'number' && !isEncodableAsInteger(value)) {
+      this.encodeFloat(value);
+      return;
+    }
+
+    if (isBignum(value)) {
+      this.encodeBignum(value);
+      return;
+    }
+
+    value >= 0
+      ? this.encodeUnsignedInteger(value)
+      : this.encodeNegativeInteger(value);
+  }
+
+  private encodeBignum(value: bigint): void {
+    const isNegative = value < 0n;
+    this.encodeHeader(
+      CborMajorType.Tag,
+      isNegative ? CborTag.NegativeBignum : CborTag.PositiveBignum,
+    );
+    this.encodeByteString(bigIntToBytes(isNegative ? -1n - value : value));
+  }
+
+  private encodeFloat(
+    value: number,
+    precision = this.resolveFloatPrecision(value),
+  ): void {
+    if (this.bytesOffset > this.target.length - SAFE_BUFFER_END_OFFSET) {
+      this.growBuffer(this.bytesOffset + SAFE_BUFFER_END_OFFSET);
+    }
+
+    switch (precision) {
+      case 'half':
+        this.targetView.setUint8(
+          this.bytesOffset++,
+          encodeMajorType(CborMajorType.Simple) | CborMinorType.TwoBytes,
+        );
+        this.targetView.setUint16(
+          this.bytesOffset,
+          numberToHalfBits(value),
+          IS_LITTLE_ENDIAN,
+        );
+        this.bytesOffset += 2;
+        return;
+
+      case 'single':
+        this.targetView.setUint8(
+          this.bytesOffset++,
+          encodeMajorType(CborMajorType.Simple) | CborMinorType.FourBytes,
+        );
+        this.targetView.setFloat32(this.bytesOffset, value, IS_LITTLE_ENDIAN);
+        this.bytesOffset += 4;
+        return;
+
+      case 'double':
+        this.targetView.setUint8(
+          this.bytesOffset++,
+          encodeMajorType(CborMajorType.Simple) | CborMinorType.EightBytes,
+        );
+        this.targetView.setFloat64(this.bytesOffset, value, IS_LITTLE_ENDIAN);
+        this.bytesOffset += 8;
+        return;
+    }
+  }
+
+  private resolveFloatPrecision(
+    value: number,
+  ): Exclude<FloatPrecision, 'shortest'> {
+    return this.floatPrecision === 'shortest'
+      ? shortestFloatPrecision(value)
+      : this.floatPrecision;
+  }
+
+  private encodeTextString(value: string): void {
+    this.checkTextString(value);
+    this.encodeBytes(CborMajorType.TextString, textEncoder.encode(value));
+  }
+
+  private checkTextString(value: string): void {
+    if (hasLoneSurrogates(value)) {
+      throw new EncodingError(
+        'Text strings must not contain lone surrogates',
+        ROOT_PATH,
+      );
+    }
+  }
+
+  private encodeByteString(value: Uint8Array): void {
+    this.encodeBytes(CborMajorType.ByteString, value);
+  }
+
+  private encodeDate(date: Date): void {
+    if (this.dateFormat === 'string') {
+      this.encodeHeader(CborMajorType.Tag, CborTag.DateTimeString);
+      this.encodeTextString(this.dateToDateTime(date));
+      return;
+    }
+
+    const seconds = this.dateToEpochSeconds(date);
+    this.encodeHeader(CborMajorType.Tag, CborTag.EpochDateTime);
+    isEncodableAsInteger(seconds)
+      ? this.encodeNumber(seconds)
+      : this.encodeFloat(seconds, shortestFloatPrecision(seconds));
+  }
+
+  private dateToDateTime(date: Date): string {
+    const dateTime = formatDateTime(this.checkDate(date));
+    if (dateTime === undefined) {
+      throw new EncodingError(
+        `Date cannot be encoded as an RFC 3339 string: ${date.toISOString()}`,
+        ROOT_PATH,
+      );
+    }
+
+    return dateTime;
+  }
+
+  private dateToEpochSeconds(date: Date): number {
+    return dateToEpochSeconds(this.checkDate(date));
+  }
+
+  private checkDate(date: Date): Date {
+    if (!isValidDate(date)) {
+      throw new EncodingError('Invalid Date cannot be encoded', ROOT_PATH);
+    }
+
+    return date;
+  }
+
+  private typedArrayToTaggedBytes(array: TypedArray): {
+    tag: number;
+    bytes: Uint8Array;
+  } {
+    const taggedBytes = typedArrayToTaggedBytes(array);
+    if (!taggedBytes) {
+      throw new UnsupportedTypeError(array.constructor.name, ROOT_PATH);
+    }
+
+    return taggedBytes;
+  }
+
+  private multiDimensionalArrayToContent(
+    array: MultiDimensionalArray,
+  ): CborValue[] {
+    if (!array.hasValidDimensions()) {
+      throw new EncodingError(
+        `Multi-dimensional array dimensions [${array.dimensions.join(', ')}] don't match its ${array.elements.length} elements`,
+        ROOT_PATH,
+      );
+    }
+
+    return [array.dimensions, array.elements];
+  }
+
+  private encodeTag(
+    tag: CborNumber,
+    value: CborValue,
+    replacer?: Replacer,
+  ): void {
+    this.encodeHeader(CborMajorType.Tag, this.checkTag(tag));
+    this.encodeItem(value, replacer);
+  }
+
+  /**
+   * Computes the size of an item with the same rules as {@link Encoder.encodeItem}, without writing it.
+   */
+  private measureItem(item: CborValue, replacer?: Replacer): number {
+    const tagEncoder = this.findTagEncoder(item);
+    if (tagEncoder) {
+      return this.measureTag(tagEncoder.tag, tagEncoder.encode(item), replacer);
+    }
+
+    switch (typeof item) {
+      case 'boolean':
+      case 'undefined':
+        return 1;
+
+      case 'number':
+      case 'bigint':
+        return this.measureNumber(item);
+
+      case 'string':
+        return this.measureTextString(item);
+
+      case 'object':
+        return item === null ? 1 : this.measureObject(item, replacer);
+    }
+
+    throw new UnsupportedTypeError(typeof item, ROOT_PATH);
+  }
+
+  private measureObject(item: object, replacer?: Replacer): number {
+    switch (this.classifyObject(item)) {
+      case 'encodable':
+        return this.measureItem((item as CborEncodable).toCBOR(), replacer);
+
+      case 'byteString':
+      case 'arrayBuffer':
+        return this.measureBytes((item as Uint8Array | ArrayBuffer).byteLength);
+
+      case 'typedArray': {
+        const { tag, bytes } = this.typedArrayToTaggedBytes(item as TypedArray);
+        return this.measureHeader(tag) + this.measureBytes(bytes.byteLength);
+      }
+
+      case 'array': {
+        const items = item as CborValue[];
+        let length = this.measureHeader(items.length);
+        for (let i = 0; i < items.length; i++) {
+          length += this.measureNestedItem(items[i], i, replacer);
+        }
+        return length;
+      }
+
+      case 'simple':
+        return this.measureHeader(this.checkSimple(item as Simple));
+
+      case 'date':
+        return this.measureDate(item as Date);
+
+      case 'tagged':
+        return this.measureTag(
+          (item as Tagged).tag,
+          (item as Tagged).value,
+          replacer,
+        );
+
+      case 'set':
+        return this.measureSet(item as Set<CborValue>, replacer);
+
+      case 'indefinite':
+        return this.measureIndefinite(item as Indefinite, replacer);
+
+      case 'multiDimensionalArray':
+        return this.measureTag(
+          CborTag.MultiDimensionalArray,
+          this.multiDimensionalArrayToContent(item as MultiDimensionalArray),
+          replacer,
+        );
+
+      case 'map':
+        return this.measureMap(this.mapEntries(item as CborMap), replacer);
+    }
+  }
+
+  private measureMap(
+    mapEntries: [CborValue, CborValue][],
+    replacer?: Replacer,
+  ): number {
+    const headerLength = this.measureHeader(mapEntries.length);
+
+    if (this.deterministic) {
+      // the keys are encoded to check that they are unique, as they are when encoding
+      return this.sortMapEntries(mapEntries).reduce<number>(
+        (length, { key, encodedKey, value }) =>
+          length +
+          encodedKey.length +
+          this.measureNestedItem(value, key, replacer),
+        headerLength,
+      );
+    }
+
+    return mapEntries.reduce<number>(
+      (length, [key, value]) =>
+        length +
+        this.measureItem(key) +
+        this.measureNestedItem(value, key, replacer),
+      headerLength,
+    );
+  }
+
+  private measureNestedItem(
+    item: CborValue,
+    keyOrIndex: CborValue,
+    replacer?: Replacer,
+  ): number {
+    const transformedItem =
+      replacer?.(item, stringifyMapKey(keyOrIndex)) ?? item;
+
+    try {
+      return this.measureItem(transformedItem, replacer);
+    } catch (error) {
+      if (error instanceof EncodingError) {
+        prependErrorPathSegment(error, keyOrIndex);
+      }
+      throw error;
+    }
+  }
+
+  private measureSet(set: Set<CborValue>, replacer?: Replacer): number {
+    if (!this.deterministic) {
+      return this.measureTag(CborTag.Set, [...set], replacer);
+    }
+
+    return this.sortSetElements(set, replacer).reduce<number>(
+      (length, encodedElement) => length + encodedElement.length,
+      this.measureHeader(CborTag.Set) + this.measureHeader(set.size),
+    );
+  }
+
+  private measureIndefinite(item: Indefinite, replacer?: Replacer): number {
+    if (this.deterministic) {
+      throw new EncodingError(
+        'Indefinite length items are not allowed in deterministic encoding',
+        ROOT_PATH,
+      );
+    }
+
+    // the initial byte and the break code
+    let length = 2;
+    let i = 0;
+    for (const value of item.items) {
+      switch (item.majorType) {
+        case CborMajorType.Array:
+          length += this.measureNestedItem(value as CborValue, i++, replacer);
+          break;
+
+        case CborMajorType.Map: {
+          const [key, mapValue] = this.checkMapEntry(value);
+          length +=
+            this.measureItem(key) +
+            this.measureNestedItem(mapValue, key, replacer);
+          break;
+        }
+
+        case CborMajorType.ByteString:
+          length += this.measureBytes(
+            this.checkByteStringChunk(value).byteLength,
+          );
+          break;
+
+        case CborMajorType.TextString:
+          length += this.measureTextString(this.checkTextStringChunk(value));
+          break;
+      }
+    }
+
+    return length;
+  }
+
+  private measureNumber(value: CborNumber): number {
+    if (typeof value === 'number' && !isEncodableAsInteger(value)) {
+      return 1 + FLOAT_BYTE_LENGTHS[this.resolveFloatPrecision(value)];
+    }
+
+    if (isBignum(value)) {
+      return (
+        this.measureHeader(
+          value < 0n ? CborTag.NegativeBignum : CborTag.PositiveBignum,
+        ) +
+        this.measureBytes(bigIntByteLength(value < 0n ? -1n - value : value))
+      );
+    }
+
+    if (value >= 0) {
+      return this.measureHeader(value);
+    }
+
+    return this.measureHeader(negativeArgument(value));
+  }
+
+  private measureTextString(value: string): number {
+    this.checkTextString(value);
+    return this.measureBytes(utf8ByteLength(value));
+  }
+
+  private measureBytes(byteLength: number): number {
+    return this.measureHeader(byteLength) + byteLength;
+  }
+
+  private measureDate(date: Date): number {
+    if (this.dateFormat === 'string') {
+      return (
+        this.measureHeader(CborTag.DateTimeString) +
+        this.measureTextString(this.dateToDateTime(date))
+      );
+    }
+
+    const seconds = this.dateToEpochSeconds(date);
+    return (
+      this.measureHeader(CborTag.EpochDateTime) +
+      (isEncodableAsInteger(seconds)
+        ? this.measureNumber(seconds)
+        : 1 + FLOAT_BYTE_LENGTHS[shortestFloatPrecision(seconds)])
+    );
+  }
+
+  private measureTag(
+    tag: CborNumber,
+    value: CborValue,
+    replacer?: Replacer,
+  ): number {
+    return (
+      this.measureHeader(this.checkTag(tag)) + this.measureItem(value, replacer)
+    );
+  }
+
+  private measureHeader(value: CborNumber): number {
+    if (value <= TOKEN_VALUE_MAX) {
+      return 1;
+    }
+
+    if (value <= ONE_BYTE_MAX) {
+      return 2;
+    }
+
+    if (value <= TWO_BYTES_MAX) {
+      return 3;
+    }
+
+    if (value <= FOUR_BYTES_MAX) {
+      return 5;
+    }
+
+    if (value <= EIGHT_BYTES_MAX) {
+      return 9;
+    }
+
+    throw new EncodingError(`Value too large to encode: ${value}`, ROOT_PATH);
+  }
+}
+
+function mapSimple(value: CborSimple): CborSimpleType {
+  if (value === false) {
+    return CborSimpleType.False;
+  }
+
+  if (value === true) {
+    return CborSimpleType.True;
+  }
+
+  if (value === null) {
+    return CborSimpleType.Null;
+  }
+
+  if (value === undefined) {
+    return CborSimpleType.Undefined;
+  }
+
+  throw new EncodingError(`Unrecognized simple value: ${String(value)}`);
+}
+
+function isEncodableAsInteger(value: number): boolean {
+  if (Number.isSafeInteger(value)) {
+    return !Object.is(value, -0);
+  }
+
+  // comparing numbers with bigints is slow, so it is only done for unsafe integers
+  return (
+    Number.isInteger(value) &&
+    value <= EIGHT_BYTES_MAX &&
+    value >= -EIGHT_BYTES_MAX - 1n
+  );
+}
+
+/**
+ * The argument of a negative integer: `-1 - value`.
+ * It is computed with bigints for unsafe integers, whose argument is not exact as a number,
+ * such as `-(2 ** 64)`, whose argument `2 ** 64 - 1` rounds to `2 ** 64`.
+ */
+function negativeArgument(value: CborNumber): CborNumber {
+  return typeof value === 'number' && Number.isSafeInteger(value)
+    ? -1 - value
+    : -1n - BigInt(value);
+}
+
+/**
+ * Checks if a value is an integer outside of the range of CBOR integers, which is encoded as a bignum.
+ */
+function isBignum(value: CborNumber): value is bigint {
+  return (
+    typeof value === 'bigint' &&
+    (value > EIGHT_BYTES_MAX || value < -EIGHT_BYTES_MAX - 1n)
+  );
+}
+
+function shortestFloatPrecision(
+  value: number,
+): Exclude<FloatPrecision, 'shortest'> {
+  if (isHalfPrecision(value)) {
+    return 'half';
+  }
+
+  if (isSinglePrecision(value)) {
+    return 'single';
+  }
+
+  return 'double';
+}
@@ -1,6 +1,57 @@
+/**
+ * The base class of the errors thrown while encoding.
+ * Encoding errors only carry the `path` of the value being encoded, such as `$.foo[3].bar`: unlike decoding errors,
+ * they have no offset or major type, since the value is not CBOR yet.
+ */
 export class EncodingError extends Error {
-  constructor(message: string) {
+  /**
+   * The JSON path of the value being encoded, such as `$.foo[3].bar`.
+   */
+  public path?: string;
+
+  /**
+   * @param message - The error message.
+   * @param path - The JSON path of the value being encoded, such as `$.foo[3].bar`.
+   */
+  constructor(message: string, path?: string) {
     super(message);
-    this.name = 'SerializationError';
+    this.name = 'EncodingError';
+    this.path = path;
+  }
+}
+
+/**
+ * Thrown when a value has a type that cannot be encoded, such as a function or a symbol.
+ */
+export class UnsupportedTypeError extends EncodingError {
+  /**
+   * @param type - The `typeof` the unsupported value.
+   * @param path - The JSON path of the value being encoded.
+   */
+  constructor(
+    public readonly type: string,
+    path: string,
+  ) {
+    super(`Unsupported type: ${type}`, path);
+    this.name = 'UnsupportedTypeError';
+  }
+}
+
+/**
+ * Thrown when an encoded value does not fit in the buffer supplied to {@link encodeInto}.
+ */
+export class BufferTooSmallError extends EncodingError {
+  /**
+   * @param requiredSize - The size in bytes of the encoded value.
+   * @param availableSize - The size in bytes that was available in the buffer.
+   */
+  constructor(
+    public readonly requiredSize: number,
+    public readonly availableSize: number,
+  ) {
+    super(
+      `Buffer too small: ${requiredSize} bytes are required, but only ${availableSize} are available`,
+    );
+    this.name = 'BufferTooSmallError';
   }
 }
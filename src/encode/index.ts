@@ -1,2 +1,19 @@
-export { EncodingError } from './encoding-error';
-export { encode, encodeWithSelfDescribedTag } from './encode';
+export {
+  BufferTooSmallError,
+  EncodingError,
+  UnsupportedTypeError,
+} from './encoding-error';
+export {
+  encode,
+  encodedLength,
+  encodeInto,
+  encodeSequence,
+  encodeWithSelfDescribedTag,
+} from './encode';
+export { Encoder } from './encoder';
+export type {
+  DateFormat,
+  EncodeOptions,
+  FloatPrecision,
+  Replacer,
+} from './encoder';
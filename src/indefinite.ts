@@ -0,0 +1,77 @@
+import { CborMajorType } from './cbor-value';
+import type { CborMap, CborValue } from './cbor-value';
+
+/**
+ * The major types that can be encoded with an indefinite length.
+ */
+export type IndefiniteMajorType =
+  | CborMajorType.ByteString
+  | CborMajorType.TextString
+  | CborMajorType.Array
+  | CborMajorType.Map;
+
+/**
+ * A value that is encoded with an indefinite length: its items (or chunks) are written one after
+ * the other, followed by the break code, without knowing their count in advance.
+ * Since the items are read from an iterable, they can be produced lazily, for example by a generator.
+ * Create instances with {@link Indefinite.array}, {@link Indefinite.map}, {@link Indefinite.bytes} or {@link Indefinite.text}.
+ * Indefinite-length items are decoded into regular arrays, maps and strings.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8949.html#section-3.2}
+ *
+ * @example
+ * ```ts
+ * encode(Indefinite.array([1, 2, 3])); // returns the Uint8Array corresponding to "9F010203FF" in hex
+ * encode(Indefinite.text(['strea', 'ming'])); // returns the Uint8Array corresponding to "7F657374726561646D696E67FF" in hex
+ * ```
+ */
+export class Indefinite {
+  private constructor(
+    public readonly majorType: IndefiniteMajorType,
+    public readonly items: Iterable<unknown>,
+  ) {}
+
+  /**
+   * Creates an indefinite-length array.
+   * @param items - The items of the array.
+   * @returns The indefinite-length array.
+   */
+  static array<T = any>(items: Iterable<CborValue<T>>): Indefinite {
+    return new Indefinite(CborMajorType.Array, items);
+  }
+
+  /**
+   * Creates an indefinite-length map.
+   * @param entries - The entries of the map, or an object whose entries are used.
+   * @returns The indefinite-length map.
+   */
+  static map<T = any>(
+    entries: Iterable<[CborValue<T>, CborValue<T>]> | CborMap<T>,
+  ): Indefinite {
+    return new Indefinite(
+      CborMajorType.Map,
+      isIterable(entries) ? entries : Object.entries(entries),
+    );
+  }
+
+  /**
+   * Creates an indefinite-length byte string.
+   * @param chunks - The chunks of the byte string.
+   * @returns The indefinite-length byte string.
+   */
+  static bytes(chunks: Iterable<Uint8Array>): Indefinite {
+    return new Indefinite(CborMajorType.ByteString, chunks);
+  }
+
+  /**
+   * Creates an indefinite-length text string.
+   * @param chunks - The chunks of the text string.
+   * @returns The indefinite-length text string.
+   */
+  static text(chunks: Iterable<string>): Indefinite {
+    return new Indefinite(CborMajorType.TextString, chunks);
+  }
+}
+
+function isIterable<T>(value: Iterable<T> | object): value is Iterable<T> {
+  return Symbol.iterator in value;
+}
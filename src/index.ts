@@ -1,3 +1,15 @@
 export * from './decode';
 export * from './encode';
-export type { CborValue, CborMap, CborNumber } from './cbor-value';
+export * from './schema';
+export type {
+  CborValue,
+  CborMap,
+  CborNumber,
+  MapKeyOrder,
+  TypedArray,
+} from './cbor-value';
+export { Tagged, createClassHandler } from './tagged';
+export type { CborClass, CborEncodable, TagHandler } from './tagged';
+export { Indefinite } from './indefinite';
+export { MultiDimensionalArray } from './multi-dimensional-array';
+export { Simple } from './simple';
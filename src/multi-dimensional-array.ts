@@ -0,0 +1,40 @@
+import type { CborValue, TypedArray } from './cbor-value';
+
+/**
+ * A multi-dimensional array, such as a matrix or a tensor: its dimensions and its elements in row-major order,
+ * as a flat array or typed array whose length is the product of the dimensions.
+ * Multi-dimensional arrays are encoded and decoded with the tag 40.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8746.html#section-3.1.1}
+ *
+ * @example
+ * ```ts
+ * const matrix = new MultiDimensionalArray([2, 3], new Float32Array([1, 2, 3, 4, 5, 6]));
+ * const decoded = decode(encode(matrix)); // returns `MultiDimensionalArray { dimensions: [2, 3], elements: Float32Array [1, 2, 3, 4, 5, 6] }`
+ * ```
+ */
+export class MultiDimensionalArray<
+  T extends CborValue[] | TypedArray = CborValue[] | TypedArray,
+> {
+  /**
+   * @param dimensions - The length of each dimension, from the outermost to the innermost.
+   * @param elements - The elements in row-major order.
+   */
+  constructor(
+    public readonly dimensions: number[],
+    public readonly elements: T,
+  ) {}
+
+  /**
+   * Checks if the number of elements is the product of the dimensions.
+   * @returns `true` if the dimensions are non-negative integers that match the number of elements.
+   */
+  hasValidDimensions(): boolean {
+    return (
+      this.dimensions.every(
+        dimension => Number.isSafeInteger(dimension) && dimension >= 0,
+      ) &&
+      this.dimensions.reduce((product, dimension) => product * dimension, 1) ===
+        this.elements.length
+    );
+  }
+}
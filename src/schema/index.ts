@@ -0,0 +1,3 @@
+export { c, OptionalSchema, Schema } from './schema';
+export type { Infer, InferShape } from './schema';
+export { SchemaError } from './schema-error';
@@ -0,0 +1,18 @@
+/**
+ * Thrown when a value does not match a {@link Schema}.
+ */
+export class SchemaError extends Error {
+  /**
+   * @param expected - A description of the expected value, such as `byte string`.
+   * @param actual - A description of the value that was found, such as `text string`.
+   * @param path - The JSON path of the first value that does not match, such as `$.foo[3].bar`.
+   */
+  constructor(
+    public readonly expected: string,
+    public readonly actual: string,
+    public readonly path: string,
+  ) {
+    super(`Schema mismatch: expected ${expected}, got ${actual}, in ${path}`);
+    this.name = 'SchemaError';
+  }
+}
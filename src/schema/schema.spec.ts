@@ -0,0 +1,138 @@
+import { it, describe, expect, expectTypeOf } from 'vitest';
+import { c, Infer } from './schema';
+import { SchemaError } from './schema-error';
+import { encode } from '../encode/encode';
+import { Tagged } from '../tagged';
+
+const envelope = c.map({
+  content: c.map({
+    request_type: c.literal('call'),
+    sender: c.bytes(),
+    nonce: c.optional(c.bytes()),
+    ingress_expiry: c.uint64(),
+    arg: c.tagged(24, c.bytes()),
+  }),
+  sender_sig: c.nullable(c.bytes()),
+  delegations: c.array(c.tuple(c.text(), c.uint())),
+});
+
+describe('schema', () => {
+  it('should infer the type of values', () => {
+    expectTypeOf<Infer<typeof envelope>>().toEqualTypeOf<{
+      content: {
+        request_type: 'call';
+        sender: Uint8Array;
+        nonce?: Uint8Array | undefined;
+        ingress_expiry: bigint;
+        arg: Tagged<Uint8Array>;
+      };
+      sender_sig: Uint8Array | null;
+      delegations: [string, number][];
+    }>();
+  });
+
+  it('should round-trip values', () => {
+    const value: Infer<typeof envelope> = {
+      content: {
+        request_type: 'call',
+        sender: new Uint8Array([4]),
+        nonce: new Uint8Array([1, 2]),
+        ingress_expiry: 1_700_000_000_000_000_000n,
+        arg: new Tagged(24, new Uint8Array([0x44])),
+      },
+      sender_sig: null,
+      delegations: [['a', 1]],
+    };
+
+    expect(envelope.decode(envelope.encode(value))).toEqual(value);
+  });
+
+  it('should omit missing optional keys and unknown keys', () => {
+    const schema = c.map({ a: c.uint(), b: c.optional(c.text()) });
+
+    const decoded = schema.decode(encode({ a: 1, c: 'extra' }));
+
+    expect(decoded).toStrictEqual({ a: 1 });
+    expect('b' in decoded).toBe(false);
+  });
+
+  it('should accept maps decoded as Map instances', () => {
+    const schema = c.map({ a: c.uint() });
+
+    expect(schema.validate(new Map([['a', 1]]))).toEqual({ a: 1 });
+  });
+
+  it('should convert integers to the type of the schema', () => {
+    expect(c.uint64().validate(1)).toBe(1n);
+    expect(c.int64().validate(-(2n ** 63n))).toBe(-(2n ** 63n));
+    expect(c.uint().validate(5n)).toBe(5);
+    expect(c.bytes().validate(new ArrayBuffer(2))).toEqual(
+      new Uint8Array([0, 0]),
+    );
+  });
+
+  it.each([
+    [c.uint(), -1, 'unsigned integer', 'number -1'],
+    [c.int(), 2n ** 53n, 'integer', 'bigint 9007199254740992'],
+    [
+      c.uint64(),
+      2n ** 64n,
+      'unsigned 64-bit integer',
+      'bigint 18446744073709551616',
+    ],
+    [
+      c.int64(),
+      2n ** 63n,
+      'signed 64-bit integer',
+      'bigint 9223372036854775808',
+    ],
+    [c.float(), 'a', 'number', 'text string'],
+    [c.bool(), null, 'boolean', 'null'],
+    [c.literal('call'), 'query', '"call"', 'text string'],
+    [c.tuple(c.text()), [], 'array of 1 items', 'array'],
+    [c.tagged(55799, c.any()), new Tagged(24, 1), 'tag 55799', 'tag 24'],
+  ])('should reject %#', (schema, value, expected, actual) => {
+    expect(() => schema.validate(value)).toThrow(
+      new SchemaError(expected, actual, '$'),
+    );
+  });
+
+  it('should report the path of the first mismatch', () => {
+    const bytes = encode({
+      content: { request_type: 'call', sender: 'anonymous' },
+      sender_sig: null,
+      delegations: [['a', -1]],
+    });
+
+    expect(() => envelope.decode(bytes)).toThrow(
+      new SchemaError('byte string', 'text string', '$.content.sender'),
+    );
+  });
+
+  it('should report the path of mismatched items', () => {
+    const bytes = encode({
+      delegations: [
+        ['a', 1],
+        ['b', -1],
+      ],
+    });
+    const schema = c.map({ delegations: c.array(c.tuple(c.text(), c.uint())) });
+
+    expect(() => schema.decode(bytes)).toThrow(
+      'Schema mismatch: expected unsigned integer, got number -1, in $.delegations[1][1]',
+    );
+  });
+
+  it('should report missing required keys', () => {
+    expect(() => c.map({ a: c.text() }).validate({})).toThrow(
+      new SchemaError('text string', 'undefined', '$.a'),
+    );
+  });
+
+  it('should validate values before encoding them', () => {
+    const schema = c.map({ a: c.uint() });
+
+    expect(() => schema.encode({ a: 1.5 })).toThrow(SchemaError);
+    expect(schema.encode({ a: 1 })).toEqual(encode({ a: 1 }));
+  });
+});
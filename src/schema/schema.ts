@@ -0,0 +1,453 @@
+import { CborNumber, CborValue, EIGHT_BYTES_MAX } from '../cbor-value';
+import { decode } from '../decode/decode';
+import { DecodeOptions } from '../decode/decoder';
+import { encode } from '../encode/encode';
+import { EncodeOptions } from '../encode/encoder';
+import { Tagged } from '../tagged';
+import { formatPath } from '../util';
+import { SchemaError } from './schema-error';
+
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
+type Validator<T> = (value: unknown, path: CborValue[]) => T;
+
+/**
+ * A schema that validates the structure of a value, and that encodes and decodes values of that structure.
+ * Create schemas with the combinators of {@link c}, and get the type of their values with {@link Infer}.
+ *
+ * @example
+ * ```ts
+ * const schema = c.map({ sender: c.bytes(), nonce: c.optional(c.bytes()), ingress_expiry: c.uint64() });
+ * type Content = Infer<typeof schema>; // { sender: Uint8Array; ingress_expiry: bigint; nonce?: Uint8Array | undefined }
+ * const content = schema.decode(bytes); // throws a SchemaError with the path of the first mismatch, such as `$.sender`
+ * ```
+ */
+export class Schema<T> {
+  /**
+   * Whether the key of this schema can be missing from a {@link c.map} schema.
+   */
+  readonly isOptional: boolean = false;
+
+  /**
+   * @param expected - A description of the expected values, used in error messages.
+   * @param validator - A function that checks a value at a path and returns it, converted to the type of the schema.
+   */
+  constructor(
+    public readonly expected: string,
+    private readonly validator: Validator<T>,
+  ) {}
+
+  /**
+   * Checks that a value matches the schema.
+   * @param value - The value to check, such as a decoded value.
+   * @param path - The keys and indices leading to the value, used in error messages.
+   * @returns The value, converted to the type of the schema. For example, integers are converted to bigints by {@link c.uint64}.
+   * @throws {@link SchemaError} with the path of the first value that does not match.
+   */
+  validate(value: unknown, path: CborValue[] = []): T {
+    return this.validator(value, path);
+  }
+
+  /**
+   * Checks that a value matches the schema, and encodes it.
+   * @param value - The value to encode.
+   * @param options - Options that can be used to customize the encoding.
+   * @returns The encoded value.
+   * @throws {@link SchemaError} with the path of the first value that does not match.
+   */
+  encode(value: T, options?: EncodeOptions): Uint8Array {
+    return encode(this.validate(value), undefined, options);
+  }
+
+  /**
+   * Decodes a value, and checks that it matches the schema.
+   * Unknown tags are decoded as {@link Tagged} values by default, so that they can be checked by {@link c.tagged}.
+   * @param input - The CBOR byte array to decode.
+   * @param options - Options that can be used to customize the decoding. `unknownTags` defaults to `'tagged'`.
+   * @returns The decoded value, converted to the type of the schema.
+   * @throws {@link SchemaError} with the path of the first value that does not match.
+   */
+  decode(input: Uint8Array, options?: DecodeOptions): T {
+    return this.validate(
+      decode(input, undefined, { unknownTags: 'tagged', ...options }),
+    );
+  }
+}
+
+/**
+ * A schema whose value can be `undefined`, or missing from a {@link c.map} schema.
+ * Create instances with {@link c.optional}.
+ */
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  override readonly isOptional = true;
+}
+
+/**
+ * The type of the values of a schema.
+ */
+export type Infer<S extends Schema<any>> =
+  S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<any> ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * The type of the values of a {@link c.map} schema: the keys of optional schemas are optional properties.
+ */
+export type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Infer<S[K]>;
+  }
+>;
+
+/**
+ * A boolean.
+ */
+function bool(): Schema<boolean> {
+  return new Schema('boolean', (value, path) => {
+    if (typeof value !== 'boolean') {
+      throw mismatch('boolean', value, path);
+    }
+    return value;
+  });
+}
+
+/**
+ * An unsigned integer that fits in a number. Bigints in the safe integer range are converted to numbers.
+ */
+function uint(): Schema<number> {
+  return new Schema('unsigned integer', (value, path) => {
+    const integer = toSafeInteger(value);
+    if (integer === undefined || integer < 0) {
+      throw mismatch('unsigned integer', value, path);
+    }
+    return integer;
+  });
+}
+
+/**
+ * An integer that fits in a number. Bigints in the safe integer range are converted to numbers.
+ */
+function int(): Schema<number> {
+  return new Schema('integer', (value, path) => {
+    const integer = toSafeInteger(value);
+    if (integer === undefined) {
+      throw mismatch('integer', value, path);
+    }
+    return integer;
+  });
+}
+
+/**
+ * An unsigned 64-bit integer, as a bigint.
+ */
+function uint64(): Schema<bigint> {
+  return new Schema('unsigned 64-bit integer', (value, path) => {
+    const integer = toBigInt(value);
+    if (integer === undefined || integer < 0n || integer > EIGHT_BYTES_MAX) {
+      throw mismatch('unsigned 64-bit integer', value, path);
+    }
+    return integer;
+  });
+}
+
+/**
+ * A signed 64-bit integer, as a bigint.
+ */
+function int64(): Schema<bigint> {
+  return new Schema('signed 64-bit integer', (value, path) => {
+    const integer = toBigInt(value);
+    if (integer === undefined || integer < INT64_MIN || integer > INT64_MAX) {
+      throw mismatch('signed 64-bit integer', value, path);
+    }
+    return integer;
+  });
+}
+
+/**
+ * A number.
+ */
+function float(): Schema<number> {
+  return new Schema('number', (value, path) => {
+    if (typeof value !== 'number') {
+      throw mismatch('number', value, path);
+    }
+    return value;
+  });
+}
+
+/**
+ * A text string.
+ */
+function text(): Schema<string> {
+  return new Schema('text string', (value, path) => {
+    if (typeof value !== 'string') {
+      throw mismatch('text string', value, path);
+    }
+    return value;
+  });
+}
+
+/**
+ * A byte string, as a `Uint8Array`.
+ */
+function bytes(): Schema<Uint8Array> {
+  return new Schema('byte string', (value, path) => {
+    if (value instanceof ArrayBuffer) {
+      return new Uint8Array(value);
+    }
+    if (!(value instanceof Uint8Array)) {
+      throw mismatch('byte string', value, path);
+    }
+    return value;
+  });
+}
+
+/**
+ * A specific string, number, boolean or `null`.
+ */
+function literal<const V extends string | number | boolean | null>(
+  literal: V,
+): Schema<V> {
+  const expected = JSON.stringify(literal);
+  return new Schema(expected, (value, path) => {
+    if (value !== literal) {
+      throw mismatch(expected, value, path);
+    }
+    return literal;
+  });
+}
+
+/**
+ * An array whose items match a schema.
+ */
+function array<T>(items: Schema<T>): Schema<T[]> {
+  const expected = `array of ${items.expected}`;
+  return new Schema(expected, (value, path) => {
+    if (!Array.isArray(value)) {
+      throw mismatch(expected, value, path);
+    }
+    return value.map((item, i) => items.validate(item, [...path, i]));
+  });
+}
+
+/**
+ * An array whose items match a list of schemas, one for each item.
+ */
+function tuple<S extends Schema<any>[]>(
+  ...items: S
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  const expected = `array of ${items.length} items`;
+  return new Schema(expected, (value, path) => {
+    if (!Array.isArray(value) || value.length !== items.length) {
+      throw mismatch(expected, value, path);
+    }
+    return items.map((item, i) => item.validate(value[i], [...path, i])) as {
+      [K in keyof S]: Infer<S[K]>;
+    };
+  });
+}
+
+/**
+ * A map with text string keys, decoded either as an object or as a `Map`, whose values match the schemas of a shape.
+ * Keys that are not in the shape are omitted, as well as optional keys whose value is `undefined`.
+ */
+function map<S extends Shape>(shape: S): Schema<InferShape<S>> {
+  return new Schema('map', (value, path) => {
+    const properties = toProperties(value);
+    if (!properties) {
+      throw mismatch('map', value, path);
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const property = schema.validate(properties.get(key), [...path, key]);
+      if (!schema.isOptional || property !== undefined) {
+        result[key] = property;
+      }
+    }
+    return result as InferShape<S>;
+  });
+}
+
+/**
+ * A value that can be `undefined`, or missing from a map.
+ */
+function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return new OptionalSchema(`${schema.expected} or undefined`, (value, path) =>
+    value === undefined ? undefined : schema.validate(value, path),
+  );
+}
+
+/**
+ * A value that can be `null`.
+ */
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return new Schema(`${schema.expected} or null`, (value, path) =>
+    value === null ? null : schema.validate(value, path),
+  );
+}
+
+/**
+ * A {@link Tagged} value whose content matches a schema.
+ */
+function tagged<T>(tag: CborNumber, content: Schema<T>): Schema<Tagged<T>> {
+  return new Schema(`tag ${tag}`, (value, path) => {
+    if (!(value instanceof Tagged) || BigInt(value.tag) !== BigInt(tag)) {
+      throw mismatch(`tag ${tag}`, value, path);
+    }
+    return new Tagged(value.tag, content.validate(value.value, path));
+  });
+}
+
+/**
+ * Any value.
+ */
+function any(): Schema<CborValue> {
+  return new Schema('any value', value => value as CborValue);
+}
+
+/**
+ * The combinators used to create a {@link Schema}:
+ * - `c.bool()`: a boolean.
+ * - `c.uint()` and `c.int()`: an integer that fits in a number.
+ * - `c.uint64()` and `c.int64()`: a 64-bit integer, as a bigint.
+ * - `c.float()`: a number.
+ * - `c.text()`: a text string.
+ * - `c.bytes()`: a byte string, as a `Uint8Array`.
+ * - `c.literal(value)`: a specific string, number, boolean or `null`.
+ * - `c.array(items)`: an array whose items match a schema.
+ * - `c.tuple(...items)`: an array whose items match a list of schemas, one for each item.
+ * - `c.map(shape)`: a map with text string keys, whose values match the schemas of a shape. Other keys are omitted.
+ * - `c.optional(schema)`: a value that can be `undefined`, or missing from a map.
+ * - `c.nullable(schema)`: a value that can be `null`.
+ * - `c.tagged(tag, content)`: a {@link Tagged} value whose content matches a schema.
+ * - `c.any()`: any value.
+ *
+ * @example
+ * ```ts
+ * const envelope = c.map({
+ *   content: c.map({
+ *     request_type: c.literal('call'),
+ *     sender: c.bytes(),
+ *     nonce: c.optional(c.bytes()),
+ *     ingress_expiry: c.uint64(),
+ *   }),
+ *   sender_sig: c.optional(c.bytes()),
+ * });
+ * const bytes = envelope.encode({ content: { request_type: 'call', sender: new Uint8Array([4]), ingress_expiry: 1n } });
+ * envelope.decode(bytes); // returns the same value
+ * ```
+ */
+export const c = {
+  bool,
+  uint,
+  int,
+  uint64,
+  int64,
+  float,
+  text,
+  bytes,
+  literal,
+  array,
+  tuple,
+  map,
+  optional,
+  nullable,
+  tagged,
+  any,
+};
+
+function mismatch(
+  expected: string,
+  value: unknown,
+  path: CborValue[],
+): SchemaError {
+  return new SchemaError(expected, describeValue(value), formatPath(path));
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return `${typeof value} ${value}`;
+  }
+
+  if (typeof value === 'string') {
+    return 'text string';
+  }
+
+  if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+    return 'byte string';
+  }
+
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+
+  if (value instanceof Tagged) {
+    return `tag ${value.tag}`;
+  }
+
+  if (value instanceof Map || isPlainObject(value)) {
+    return 'map';
+  }
+
+  if (typeof value === 'object') {
+    return value.constructor.name;
+  }
+
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Reads the properties of a map with text string keys, decoded either as a plain object or as a `Map`.
+ */
+function toProperties(value: unknown): Map<string, unknown> | undefined {
+  if (value instanceof Map) {
+    return value;
+  }
+
+  return isPlainObject(value) ? new Map(Object.entries(value)) : undefined;
+}
+
+function toSafeInteger(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value) ? value : undefined;
+  }
+
+  if (typeof value === 'bigint') {
+    return value >= Number.MIN_SAFE_INTEGER && value <= Number.MAX_SAFE_INTEGER
+      ? Number(value)
+      : undefined;
+  }
+
+  return undefined;
+}
+
+function toBigInt(value: unknown): bigint | undefined {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+
+  return typeof value === 'number' && Number.isInteger(value)
+    ? BigInt(value)
+    : undefined;
+}
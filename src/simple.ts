@@ -0,0 +1,31 @@
+/**
+ * A simple value that has no JavaScript equivalent, such as a custom marker defined by a protocol.
+ * Its value is an integer in the ranges 0–19 or 32–255: the values 20–23 are `false`, `true`, `null` and `undefined`,
+ * and the values 24–31 are reserved.
+ * Values up to 19 are encoded in one byte, and values from 32 are encoded in two bytes.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8949.html#section-3.3}
+ *
+ * @example
+ * ```ts
+ * encode(new Simple(16)); // returns the Uint8Array corresponding to "F0" in hex
+ * encode(new Simple(255)); // returns the Uint8Array corresponding to "F8FF" in hex
+ * ```
+ */
+export class Simple {
+  /**
+   * @param value - The simple value.
+   */
+  constructor(public readonly value: number) {}
+
+  /**
+   * Checks if the value can be encoded as an unassigned simple value.
+   * @returns `true` if the value is an integer in the ranges 0–19 or 32–255.
+   */
+  isValid(): boolean {
+    return (
+      Number.isInteger(this.value) &&
+      ((this.value >= 0 && this.value <= 19) ||
+        (this.value >= 32 && this.value <= 255))
+    );
+  }
+}
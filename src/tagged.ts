@@ -0,0 +1,128 @@
+import type { CborNumber, CborValue } from './cbor-value';
+
+/**
+ * A tagged CBOR item: a tag number and the value it applies to.
+ * Tagged items are encoded as-is, and tags without a {@link TagHandler} are decoded into this class
+ * when the `unknownTags` decoding option is set to `'tagged'`.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8949.html#section-3.4}
+ *
+ * @example
+ * ```ts
+ * const encoded = encode(new Tagged(32, 'https://example.com')); // returns the Uint8Array corresponding to "D82073..." in hex
+ * ```
+ */
+export class Tagged<T = CborValue> {
+  /**
+   * @param tag - The tag number.
+   * @param value - The tag content.
+   */
+  constructor(
+    public readonly tag: CborNumber,
+    public readonly value: T,
+  ) {}
+}
+
+/**
+ * A handler that maps a CBOR tag to a JavaScript value and back.
+ * Handlers are passed to {@link encode} and {@link decode} with the `tags` option.
+ *
+ * @example
+ * ```ts
+ * const urlHandler: TagHandler<URL> = {
+ *   tag: 32,
+ *   decode: value => new URL(value as string),
+ *   test: value => value instanceof URL,
+ *   encode: value => value.href,
+ * };
+ * const encoded = encode(new URL('https://example.com'), undefined, { tags: [urlHandler] });
+ * const decoded = decode(encoded, undefined, { tags: [urlHandler] }); // returns `URL { href: 'https://example.com/' }`
+ * ```
+ */
+export interface TagHandler<T = any> {
+  /**
+   * The tag number.
+   */
+  tag: CborNumber;
+  /**
+   * Converts the decoded tag content into a value. Required for decoding.
+   */
+  decode?: (value: CborValue) => T;
+  /**
+   * Checks if a value should be encoded with this tag. Required for encoding.
+   */
+  test?: (value: unknown) => boolean;
+  /**
+   * Converts a value into the tag content. Required for encoding.
+   */
+  encode?: (value: T) => CborValue;
+}
+
+/**
+ * An object that defines the value it is encoded as, like `toJSON` does for `JSON.stringify`.
+ * The value returned by `toCBOR` is encoded in place of the object, without a tag,
+ * unless a {@link TagHandler} (see {@link createClassHandler}) applies to the object.
+ *
+ * @example
+ * ```ts
+ * class Money implements CborEncodable {
+ *   constructor(public amount: bigint, public currency: string) {}
+ *   toCBOR() {
+ *     return [this.amount, this.currency];
+ *   }
+ * }
+ * encode(new Money(5n, 'ICP')); // returns the Uint8Array corresponding to the CBOR encoding of `[5, "ICP"]`
+ * ```
+ */
+export interface CborEncodable {
+  /**
+   * Converts the object into the value it is encoded as.
+   */
+  toCBOR(): CborValue;
+}
+
+/**
+ * A class whose instances are {@link CborEncodable}, with a static `fromCBOR` factory that creates an instance
+ * from the decoded value. See {@link createClassHandler}.
+ */
+export interface CborClass<T extends CborEncodable = CborEncodable> {
+  new (...args: never[]): T;
+  /**
+   * Creates an instance from the value returned by `toCBOR`, once encoded and decoded.
+   */
+  fromCBOR(value: CborValue): T;
+}
+
+/**
+ * Creates a handler that encodes the instances of a class with a tag, as the value returned by their `toCBOR` method,
+ * and decodes the tag back into an instance with the static `fromCBOR` method of the class.
+ * @param tag - The tag number.
+ * @param cborClass - The class.
+ * @returns The handler, to pass to both {@link encode} and {@link decode} with the `tags` option.
+ *
+ * @example
+ * ```ts
+ * class Point {
+ *   constructor(public x: number, public y: number) {}
+ *   toCBOR() {
+ *     return [this.x, this.y];
+ *   }
+ *   static fromCBOR(value: CborValue) {
+ *     const [x, y] = value as [number, number];
+ *     return new Point(x, y);
+ *   }
+ * }
+ * const tags = [createClassHandler(40_000, Point)];
+ * decode(encode(new Point(1, 2), undefined, { tags }), undefined, { tags }); // returns `Point { x: 1, y: 2 }`
+ * ```
+ */
+export function createClassHandler<T extends CborEncodable>(
+  tag: CborNumber,
+  cborClass: CborClass<T>,
+): TagHandler<T> {
+  return {
+    tag,
+    test: value => value instanceof cborClass,
+    encode: value => value.toCBOR(),
+    decode: value => cborClass.fromCBOR(value),
+  };
+}
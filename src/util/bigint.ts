@@ -0,0 +1,34 @@
+/**
+ * Converts an unsigned big-endian byte array of any length into a bigint.
+ */
+export function bytesToBigInt(bytes: Uint8Array): bigint {
+  if (bytes.length === 0) {
+    return 0n;
+  }
+
+  const hex = Array.from(bytes, byte =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
+  return BigInt(`0x${hex}`);
+}
+
+/**
+ * Converts a non-negative bigint into its shortest unsigned big-endian byte array, without leading zeros.
+ */
+export function bigIntToBytes(value: bigint): Uint8Array {
+  const hex = value.toString(16);
+  const paddedHex = hex.length % 2 === 0 ? hex : `0${hex}`;
+
+  const bytes = new Uint8Array(paddedHex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(paddedHex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Computes the length of the byte array returned by {@link bigIntToBytes} for a non-negative bigint.
+ */
+export function bigIntByteLength(value: bigint): number {
+  return Math.ceil(value.toString(16).length / 2);
+}
@@ -0,0 +1,18 @@
+export function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+
+  return a.length - b.length;
+}
+
+export function compareBytesLengthFirst(a: Uint8Array, b: Uint8Array): number {
+  return a.length !== b.length ? a.length - b.length : compareBytes(a, b);
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -1 +1,7 @@
 export const IS_LITTLE_ENDIAN = false;
+
+/**
+ * Whether the platform stores the elements of typed arrays in little-endian byte order.
+ */
+export const IS_PLATFORM_LITTLE_ENDIAN =
+  new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
@@ -0,0 +1,80 @@
+const MILLISECONDS_PER_SECOND = 1_000;
+const MILLISECONDS_PER_DAY = 86_400_000;
+
+const DATE_TIME_REGEX =
+  /^\d{4}-\d{2}-\d{2}[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/;
+
+const FULL_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Formats a date as an RFC 3339 date-time string in UTC, omitting the fraction of a second when it is zero.
+ * Returns `undefined` for invalid dates and for years that RFC 3339 can't represent (before 0 or after 9999).
+ * @see {@link https://www.rfc-editor.org/rfc/rfc3339.html#section-5.6}
+ */
+export function formatDateTime(date: Date): string | undefined {
+  if (!isValidDate(date)) {
+    return undefined;
+  }
+
+  const dateTime = date.toISOString().replace('.000Z', 'Z');
+  return DATE_TIME_REGEX.test(dateTime) ? dateTime : undefined;
+}
+
+/**
+ * Parses an RFC 3339 date-time string. Returns `undefined` if the string is not a valid date-time.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc3339.html#section-5.6}
+ */
+export function parseDateTime(dateTime: string): Date | undefined {
+  if (!DATE_TIME_REGEX.test(dateTime)) {
+    return undefined;
+  }
+
+  return toValidDate(Date.parse(dateTime.toUpperCase()));
+}
+
+/**
+ * Parses an RFC 3339 full-date string, such as `2013-03-21`, into a date at midnight UTC.
+ * Returns `undefined` if the string is not a valid full-date.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc3339.html#section-5.6}
+ */
+export function parseFullDate(fullDate: string): Date | undefined {
+  if (!FULL_DATE_REGEX.test(fullDate)) {
+    return undefined;
+  }
+
+  const date = toValidDate(Date.parse(`${fullDate}T00:00:00Z`));
+  // `Date.parse` accepts days that don't exist in the month, such as `2013-02-30`, and rolls them over
+  return date?.toISOString().startsWith(fullDate) ? date : undefined;
+}
+
+/**
+ * Converts a date to the number of seconds since the epoch, with a fractional part for milliseconds.
+ */
+export function dateToEpochSeconds(date: Date): number {
+  return date.getTime() / MILLISECONDS_PER_SECOND;
+}
+
+/**
+ * Converts a number of seconds since the epoch to a date. Returns `undefined` if the date is out of range.
+ */
+export function epochSecondsToDate(seconds: number): Date | undefined {
+  return toValidDate(seconds * MILLISECONDS_PER_SECOND);
+}
+
+/**
+ * Converts a number of days since the epoch to a date at midnight UTC. Returns `undefined` if the date is out of range.
+ */
+export function epochDaysToDate(days: number): Date | undefined {
+  return Number.isInteger(days)
+    ? toValidDate(days * MILLISECONDS_PER_DAY)
+    : undefined;
+}
+
+export function isValidDate(date: Date): boolean {
+  return !Number.isNaN(date.getTime());
+}
+
+function toValidDate(time: number): Date | undefined {
+  const date = new Date(time);
+  return isValidDate(date) ? date : undefined;
+}
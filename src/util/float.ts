@@ -0,0 +1,101 @@
+const HALF_SIGN_MASK = 0x8000;
+const HALF_EXPONENT_MASK = 0x7c00;
+const HALF_FRACTION_MASK = 0x03ff;
+const HALF_NAN = 0x7e00;
+const HALF_INFINITY = 0x7c00;
+const HALF_MIN_NORMAL = 2 ** -14;
+const HALF_MIN_SUBNORMAL = 2 ** -24;
+const HALF_OVERFLOW = 65_520;
+
+/**
+ * Converts the bits of an IEEE 754 half-precision (binary16) float into a number.
+ * @param bits - The 16 bits of the half-precision float.
+ * @returns The number represented by the bits.
+ */
+export function halfBitsToNumber(bits: number): number {
+  const sign = bits & HALF_SIGN_MASK ? -1 : 1;
+  const exponent = (bits & HALF_EXPONENT_MASK) >> 10;
+  const fraction = bits & HALF_FRACTION_MASK;
+
+  if (exponent === 0) {
+    return sign * fraction * HALF_MIN_SUBNORMAL;
+  }
+
+  if (exponent === 0x1f) {
+    return fraction === 0 ? sign * Infinity : NaN;
+  }
+
+  return sign * (fraction + 0x400) * 2 ** (exponent - 25);
+}
+
+/**
+ * Converts a number into the bits of an IEEE 754 half-precision (binary16) float,
+ * rounding to the nearest representable value (ties to even).
+ * Every NaN is converted into the canonical quiet NaN `0x7e00`.
+ * @param value - The number to convert.
+ * @returns The 16 bits of the half-precision float.
+ */
+export function numberToHalfBits(value: number): number {
+  if (Number.isNaN(value)) {
+    return HALF_NAN;
+  }
+
+  const sign = value < 0 || Object.is(value, -0) ? HALF_SIGN_MASK : 0;
+  const abs = Math.abs(value);
+
+  if (abs >= HALF_OVERFLOW) {
+    return sign | HALF_INFINITY;
+  }
+
+  if (abs < HALF_MIN_NORMAL) {
+    // subnormal, rounding up to `0x0400` yields the smallest normal number
+    return sign | roundHalfToEven(abs / HALF_MIN_SUBNORMAL);
+  }
+
+  let exponent = Math.floor(Math.log2(abs));
+  if (2 ** exponent > abs) {
+    exponent--;
+  } else if (2 ** (exponent + 1) <= abs) {
+    exponent++;
+  }
+
+  let fraction = roundHalfToEven((abs / 2 ** exponent - 1) * 0x400);
+  if (fraction === 0x400) {
+    fraction = 0;
+    exponent++;
+  }
+
+  if (exponent > 15) {
+    return sign | HALF_INFINITY;
+  }
+
+  return sign | ((exponent + 15) << 10) | fraction;
+}
+
+/**
+ * Checks if a number can be represented as a half-precision float without losing precision.
+ * @param value - The number to check.
+ * @returns `true` if the number survives a round trip through half precision.
+ */
+export function isHalfPrecision(value: number): boolean {
+  return isSameNumber(halfBitsToNumber(numberToHalfBits(value)), value);
+}
+
+/**
+ * Checks if a number can be represented as a single-precision float without losing precision.
+ * @param value - The number to check.
+ * @returns `true` if the number survives a round trip through single precision.
+ */
+export function isSinglePrecision(value: number): boolean {
+  return isSameNumber(Math.fround(value), value);
+}
+
+function isSameNumber(a: number, b: number): boolean {
+  return a === b || (Number.isNaN(a) && Number.isNaN(b));
+}
+
+function roundHalfToEven(value: number): number {
+  const rounded = Math.round(value);
+
+  return rounded - value === 0.5 && rounded % 2 !== 0 ? rounded - 1 : rounded;
+}
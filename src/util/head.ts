@@ -0,0 +1,340 @@
+import {
+  CborMajorType,
+  CborMinorType,
+  CborNumber,
+  FOUR_BYTES_MAX,
+  ONE_BYTE_MAX,
+  TOKEN_VALUE_MAX,
+  TWO_BYTES_MAX,
+} from '../cbor-value';
+import {
+  DecodingError,
+  DecodingErrorContext,
+  InvalidUtf8Error,
+  LimitExceededError,
+  UnexpectedEndError,
+} from '../decode/decoding-error';
+import { IS_LITTLE_ENDIAN } from './constants';
+import { halfBitsToNumber } from './float';
+import type { DecodeLimits } from './limits';
+import { isNil } from './nil';
+
+/**
+ * The break code, which ends an indefinite-length item: the major type 7 with the additional information 31.
+ */
+export const BREAK_BYTE = 0xff;
+
+export function decodeMajorType(firstByte: number): CborMajorType {
+  return (firstByte & 0b1110_0000) >> 5;
+}
+
+export function decodeInfo(firstByte: number): number {
+  return firstByte & 0b0001_1111;
+}
+
+/**
+ * The number of bytes of the argument that follows the initial byte of an item head.
+ * Returns `undefined` for the reserved additional information values 28 to 30, which are not well-formed,
+ * and for the indefinite length marker 31, which has no argument.
+ */
+export function argumentByteLength(info: number): number | undefined {
+  if (info <= CborMinorType.Value) {
+    return 0;
+  }
+
+  return info <= CborMinorType.EightBytes
+    ? 1 << (info - CborMinorType.OneByte)
+    : undefined;
+}
+
+/**
+ * Reads the argument of an item head, which starts at `offset`, right after the initial byte.
+ * The bytes of the argument must be available, see {@link argumentByteLength}.
+ */
+export function readArgument(
+  bytes: Uint8Array,
+  offset: number,
+  info: number,
+): CborNumber {
+  if (info <= CborMinorType.Value) {
+    return info;
+  }
+
+  // the shorter arguments are read byte by byte, to avoid allocating a DataView for every item
+  switch (info) {
+    case CborMinorType.OneByte:
+      return bytes[offset];
+
+    case CborMinorType.TwoBytes:
+      return (bytes[offset] << 8) | bytes[offset + 1];
+
+    case CborMinorType.FourBytes:
+      return (
+        bytes[offset] * 0x100_0000 +
+        ((bytes[offset + 1] << 16) |
+          (bytes[offset + 2] << 8) |
+          bytes[offset + 3])
+      );
+
+    default:
+      return new DataView(bytes.buffer, bytes.byteOffset + offset).getBigUint64(
+        0,
+        IS_LITTLE_ENDIAN,
+      );
+  }
+}
+
+/**
+ * Checks if an argument is encoded in its shortest form, that is, it does not fit in fewer bytes.
+ */
+export function isShortestArgument(value: CborNumber, info: number): boolean {
+  switch (info) {
+    case CborMinorType.OneByte:
+      return value > TOKEN_VALUE_MAX;
+
+    case CborMinorType.TwoBytes:
+      return value > ONE_BYTE_MAX;
+
+    case CborMinorType.FourBytes:
+      return value > TWO_BYTES_MAX;
+
+    case CborMinorType.EightBytes:
+      return value > FOUR_BYTES_MAX;
+
+    default:
+      return true;
+  }
+}
+
+/**
+ * The number of bytes of the half, single or double precision float that follows an initial byte
+ * with the additional information 25, 26 or 27.
+ */
+export function floatByteLength(info: number): number {
+  return 1 << (info - CborMinorType.OneByte);
+}
+
+/**
+ * Reads a half, single or double precision float, which starts at `offset`, right after the initial byte.
+ * The bytes of the float must be available, see {@link floatByteLength}.
+ */
+export function readFloat(
+  bytes: Uint8Array,
+  offset: number,
+  info: number,
+): number {
+  const dataView = new DataView(bytes.buffer, bytes.byteOffset + offset);
+  switch (info) {
+    case CborMinorType.TwoBytes:
+      return halfBitsToNumber(dataView.getUint16(0, IS_LITTLE_ENDIAN));
+
+    case CborMinorType.FourBytes:
+      return dataView.getFloat32(0, IS_LITTLE_ENDIAN);
+
+    default:
+      return dataView.getFloat64(0, IS_LITTLE_ENDIAN);
+  }
+}
+
+/**
+ * Checks if a simple value can follow the initial byte `0xf8`.
+ * The values below 32 have a one-byte encoding, and their two-byte encoding is not well-formed.
+ */
+export function isTwoByteSimpleValue(value: number): boolean {
+  return value >= 32;
+}
+
+/**
+ * Checks if an item head can be a chunk of an indefinite-length string.
+ * Returns the reason why it can't, or `undefined` if it can.
+ */
+export function invalidStringChunkReason(
+  stringMajorType: CborMajorType,
+  chunkMajorType: CborMajorType,
+  chunkInfo: number,
+): string | undefined {
+  if (chunkMajorType !== stringMajorType) {
+    return `Indefinite length string chunks must have the same major type as the string: expected ${stringMajorType}, got ${chunkMajorType}`;
+  }
+
+  if (chunkInfo === CborMinorType.Indefinite) {
+    return 'Indefinite length string chunks must have a definite length';
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads the item heads and the bytes of a CBOR input, with the checks shared by the decoder and the diagnostic printer,
+ * so that they agree on limits, truncated input and invalid UTF-8.
+ * The subclasses interpret the items, and tell where an error occurred with {@link CborReader.errorContext}.
+ */
+export abstract class CborReader {
+  protected cborBytes: Uint8Array<ArrayBufferLike> = new Uint8Array();
+  protected bytesOffset = 0;
+  protected depth = 0;
+  protected majorType?: CborMajorType;
+
+  /**
+   * @param limits - The limits that the input must not exceed.
+   * @param textDecoder - The decoder of text strings, which throws on invalid UTF-8 if it is fatal.
+   */
+  constructor(
+    protected readonly limits: Required<DecodeLimits>,
+    private readonly textDecoder: TextDecoder,
+  ) {}
+
+  protected abstract errorContext(): DecodingErrorContext;
+
+  /**
+   * Reads the initial byte of the next item, and returns its major type and additional information.
+   */
+  protected readHead(): [CborMajorType, number] {
+    const firstByte = this.cborBytes.at(this.bytesOffset);
+    if (isNil(firstByte)) {
+      throw this.bytesOffset === 0
+        ? new DecodingError('Provided CBOR data is empty', this.errorContext())
+        : new UnexpectedEndError(1, this.errorContext());
+    }
+
+    const majorType = decodeMajorType(firstByte);
+    this.majorType = majorType;
+
+    this.bytesOffset++;
+    return [majorType, decodeInfo(firstByte)];
+  }
+
+  /**
+   * Reads the break code that ends an indefinite-length item, if it is the next byte.
+   */
+  protected readBreak(): boolean {
+    if (this.cborBytes[this.bytesOffset] !== BREAK_BYTE) {
+      return false;
+    }
+
+    this.majorType = CborMajorType.Simple;
+    this.bytesOffset++;
+    return true;
+  }
+
+  /**
+   * Reads the argument of the item head whose initial byte was just read.
+   */
+  protected readHeadArgument(info: number): CborNumber {
+    if (info <= CborMinorType.Value) {
+      return info;
+    }
+
+    const byteLength = argumentByteLength(info);
+    if (isNil(byteLength)) {
+      throw new DecodingError(
+        `Unsupported integer info: ${info.toString(2)}`,
+        this.errorContext(),
+      );
+    }
+
+    this.checkAvailableBytes(byteLength);
+    const value = readArgument(this.cborBytes, this.bytesOffset, info);
+    this.bytesOffset += byteLength;
+    return value;
+  }
+
+  /**
+   * Reads the next bytes of the input, without copying them.
+   */
+  protected readBytes(byteLength: CborNumber): Uint8Array {
+    if (byteLength > Number.MAX_SAFE_INTEGER) {
+      throw new DecodingError('Byte length is too large', this.errorContext());
+    }
+
+    const safeByteLength = Number(byteLength);
+    this.checkAvailableBytes(safeByteLength);
+    this.bytesOffset += safeByteLength;
+    return this.cborBytes.subarray(
+      this.bytesOffset - safeByteLength,
+      this.bytesOffset,
+    );
+  }
+
+  /**
+   * Reads the chunks of an indefinite-length string until the break code.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc8949.html#section-3.2.3}
+   * @param majorType - The major type of the string, which its chunks must have.
+   * @param readChunkLength - Reads the length of a chunk from the additional information of its head.
+   * @param readChunk - Reads a chunk of the given length, whose head has the given additional information.
+   */
+  protected readChunks<T>(
+    majorType: CborMajorType,
+    readChunkLength: (chunkInfo: number) => CborNumber,
+    readChunk: (chunkLength: CborNumber, chunkInfo: number) => T,
+  ): T[] {
+    const chunks: T[] = [];
+    let stringLength = 0;
+    while (!this.readBreak()) {
+      const [chunkMajorType, chunkInfo] = this.readHead();
+      const invalidChunkReason = invalidStringChunkReason(
+        majorType,
+        chunkMajorType,
+        chunkInfo,
+      );
+      if (invalidChunkReason) {
+        throw new DecodingError(invalidChunkReason, this.errorContext());
+      }
+
+      const chunkLength = readChunkLength(chunkInfo);
+      stringLength += Number(chunkLength);
+      this.checkLimit('maxStringLength', stringLength);
+
+      chunks.push(readChunk(chunkLength, chunkInfo));
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Reads the value of a simple value that follows the initial byte `0xf8`.
+   */
+  protected readExtendedSimple(): number {
+    this.checkAvailableBytes(1);
+    const value = this.cborBytes[this.bytesOffset];
+
+    if (!isTwoByteSimpleValue(value)) {
+      throw new DecodingError(
+        `Invalid simple value: ${value} must not be encoded in two bytes`,
+        this.errorContext(),
+      );
+    }
+
+    this.bytesOffset++;
+    return value;
+  }
+
+  protected decodeUtf8(bytes: Uint8Array): string {
+    try {
+      return this.textDecoder.decode(bytes);
+    } catch {
+      throw new InvalidUtf8Error(this.errorContext());
+    }
+  }
+
+  protected enterNestedItem(): void {
+    this.depth++;
+    this.checkLimit('maxDepth', this.depth);
+  }
+
+  protected checkLimit(limit: keyof DecodeLimits, value: CborNumber): void {
+    if (value > this.limits[limit]) {
+      throw new LimitExceededError(
+        limit,
+        this.limits[limit],
+        this.errorContext(),
+      );
+    }
+  }
+
+  protected checkAvailableBytes(byteLength: number): void {
+    if (this.bytesOffset + byteLength > this.cborBytes.length) {
+      throw new UnexpectedEndError(byteLength, this.errorContext());
+    }
+  }
+}
@@ -1,3 +1,12 @@
+export * from './bytes';
 export * from './constants';
 export * from './nil';
 export * from './typed-array';
+export * from './float';
+export * from './map-key';
+export * from './path';
+export * from './utf8';
+export * from './date';
+export * from './bigint';
+export * from './head';
+export * from './limits';
@@ -0,0 +1,40 @@
+/**
+ * Limits that protect the decoder against untrusted input, such as deeply nested or very large items.
+ * A {@link LimitExceededError} is thrown when the input exceeds one of them.
+ */
+export interface DecodeLimits {
+  /**
+   * The maximum nesting depth of arrays, maps and tags. A top-level item that is not nested has a depth of 0.
+   * @default 1024
+   */
+  maxDepth?: number;
+  /**
+   * The maximum number of items in an array.
+   * @default Infinity
+   */
+  maxArrayLength?: number;
+  /**
+   * The maximum number of entries in a map.
+   * @default Infinity
+   */
+  maxMapSize?: number;
+  /**
+   * The maximum length in bytes of a byte string or a text string, including all the chunks of an indefinite-length string.
+   * @default Infinity
+   */
+  maxStringLength?: number;
+  /**
+   * The maximum size in bytes of the input.
+   * When decoding a stream, this is the maximum size of the bytes that are buffered at once.
+   * @default Infinity
+   */
+  maxInputSize?: number;
+}
+
+export const DEFAULT_LIMITS: Required<DecodeLimits> = {
+  maxDepth: 1_024,
+  maxArrayLength: Infinity,
+  maxMapSize: Infinity,
+  maxStringLength: Infinity,
+  maxInputSize: Infinity,
+};
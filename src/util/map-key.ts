@@ -0,0 +1,15 @@
+/**
+ * Converts a map key into the string passed to a replacer or reviver.
+ * Numeric keys are stringified, like array indices. Other non-string keys have no string representation.
+ */
+export function stringifyMapKey(key: unknown): string | undefined {
+  if (
+    typeof key === 'string' ||
+    typeof key === 'number' ||
+    typeof key === 'bigint'
+  ) {
+    return String(key);
+  }
+
+  return undefined;
+}
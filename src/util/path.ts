@@ -0,0 +1,72 @@
+import type { CborValue } from '../cbor-value';
+import { isNil } from './nil';
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * The JSON path of the top-level item.
+ */
+export const ROOT_PATH = '$';
+
+/**
+ * Formats the keys and indices leading to an item as a JSON path, such as `$.foo[3].bar`.
+ * Keys that have no string representation, such as byte strings or arrays, are written as `[?]`.
+ */
+export function formatPath(path: CborValue[]): string {
+  return path.reduce<string>((formattedPath, segment) => {
+    if (typeof segment === 'number' || typeof segment === 'bigint') {
+      return `${formattedPath}[${segment}]`;
+    }
+
+    if (typeof segment === 'string') {
+      return IDENTIFIER_REGEX.test(segment)
+        ? `${formattedPath}.${segment}`
+        : `${formattedPath}[${JSON.stringify(segment)}]`;
+    }
+
+    return `${formattedPath}[?]`;
+  }, ROOT_PATH);
+}
+
+/**
+ * Adds the key or index of an item in front of a path that starts at this item,
+ * so that `$.bar` found in the item at index `3` becomes `$[3].bar`.
+ * Errors are thrown with the path from the item that failed, and each container adds its segment as the error unwinds.
+ */
+export function prependPathSegment(segment: CborValue, path: string): string {
+  return formatPath([segment]) + path.slice(ROOT_PATH.length);
+}
+
+/**
+ * An error that carries the JSON path of the item where it occurred.
+ */
+export interface ErrorWithPath {
+  path?: string;
+}
+
+/**
+ * The errors that have left the decoding or encoding that threw them, whose path must not change anymore.
+ */
+const errorsWithCompletePath = new WeakSet<ErrorWithPath>();
+
+/**
+ * Adds the key or index of the item that failed in front of the path of an error, as it unwinds through the items that contain it.
+ */
+export function prependErrorPathSegment(
+  error: ErrorWithPath,
+  segment: CborValue,
+): void {
+  if (isNil(error.path) || errorsWithCompletePath.has(error)) {
+    return;
+  }
+
+  error.path = prependPathSegment(segment, error.path);
+}
+
+/**
+ * Marks the path of an error as complete when it leaves the decoding or encoding that threw it,
+ * so that an enclosing decoding or encoding, such as the one that called a tag handler, doesn't add its own segments.
+ */
+export function completeErrorPath(error: ErrorWithPath): void {
+  errorsWithCompletePath.add(error);
+}
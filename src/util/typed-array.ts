@@ -1,3 +1,7 @@
+import type { CborNumber, TypedArray } from '../cbor-value';
+import { IS_PLATFORM_LITTLE_ENDIAN } from './constants';
+import { halfBitsToNumber } from './float';
+
 export function resizeUint8Array(
   array: Uint8Array,
   newSize: number,
@@ -6,3 +10,169 @@ export function resizeUint8Array(
   newArray.set(array);
   return newArray;
 }
+
+export function concatUint8Arrays(
+  arrays: Uint8Array[],
+): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(
+    arrays.reduce((length, array) => length + array.length, 0),
+  );
+
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+
+  return result;
+}
+
+type TypedArrayConstructor = {
+  new (buffer: ArrayBufferLike, byteOffset: number, length: number): TypedArray;
+  readonly BYTES_PER_ELEMENT: number;
+};
+
+interface TypedArrayFormat {
+  tag: number;
+  type: TypedArrayConstructor;
+  littleEndian: boolean;
+  /**
+   * Whether the elements are half-precision floats, which are decoded into a `Float32Array`.
+   */
+  isHalf?: boolean;
+}
+
+/**
+ * The typed array tags of RFC 8746, except for the 128-bit floats that JavaScript can't represent.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8746.html#section-2}
+ */
+const TYPED_ARRAY_FORMATS: TypedArrayFormat[] = [
+  { tag: 64, type: Uint8Array, littleEndian: false },
+  { tag: 65, type: Uint16Array, littleEndian: false },
+  { tag: 66, type: Uint32Array, littleEndian: false },
+  { tag: 67, type: BigUint64Array, littleEndian: false },
+  { tag: 68, type: Uint8ClampedArray, littleEndian: true },
+  { tag: 69, type: Uint16Array, littleEndian: true },
+  { tag: 70, type: Uint32Array, littleEndian: true },
+  { tag: 71, type: BigUint64Array, littleEndian: true },
+  { tag: 72, type: Int8Array, littleEndian: false },
+  { tag: 73, type: Int16Array, littleEndian: false },
+  { tag: 74, type: Int32Array, littleEndian: false },
+  { tag: 75, type: BigInt64Array, littleEndian: false },
+  { tag: 77, type: Int16Array, littleEndian: true },
+  { tag: 78, type: Int32Array, littleEndian: true },
+  { tag: 79, type: BigInt64Array, littleEndian: true },
+  { tag: 80, type: Float32Array, littleEndian: false, isHalf: true },
+  { tag: 81, type: Float32Array, littleEndian: false },
+  { tag: 82, type: Float64Array, littleEndian: false },
+  { tag: 84, type: Float32Array, littleEndian: true, isHalf: true },
+  { tag: 85, type: Float32Array, littleEndian: true },
+  { tag: 86, type: Float64Array, littleEndian: true },
+];
+
+const TYPED_ARRAY_FORMATS_BY_TAG = new Map(
+  TYPED_ARRAY_FORMATS.map(format => [format.tag, format]),
+);
+
+/**
+ * The formats used to encode typed arrays: little-endian, so that the encoding doesn't depend on the platform.
+ */
+const TYPED_ARRAY_ENCODING_FORMATS = TYPED_ARRAY_FORMATS.filter(
+  ({ type, littleEndian, isHalf }) =>
+    !isHalf && (littleEndian || type.BYTES_PER_ELEMENT === 1),
+);
+
+/**
+ * Checks if a value is a typed array, such as a `Uint8Array` or a `Float64Array`, but not a `DataView`.
+ */
+export function isTypedArray(value: unknown): value is TypedArray {
+  return ArrayBuffer.isView(value) && !(value instanceof DataView);
+}
+
+export function isTypedArrayTag(tag: CborNumber): boolean {
+  return typeof tag === 'number' && TYPED_ARRAY_FORMATS_BY_TAG.has(tag);
+}
+
+/**
+ * Finds the tag that a typed array is encoded with, and the little-endian bytes of its elements.
+ * Returns `undefined` for typed arrays that have no tag, such as a `Float16Array`.
+ */
+export function typedArrayToTaggedBytes(
+  array: TypedArray,
+): { tag: number; bytes: Uint8Array } | undefined {
+  const format = TYPED_ARRAY_ENCODING_FORMATS.find(
+    ({ type }) => array instanceof type,
+  );
+  if (!format) {
+    return undefined;
+  }
+
+  const bytes = new Uint8Array(
+    array.buffer,
+    array.byteOffset,
+    array.byteLength,
+  );
+  return {
+    tag: format.tag,
+    bytes: IS_PLATFORM_LITTLE_ENDIAN
+      ? bytes
+      : reverseElementBytes(bytes, array.BYTES_PER_ELEMENT),
+  };
+}
+
+/**
+ * Converts the content of a typed array tag into the matching typed array.
+ * The typed array is a view of the bytes when their alignment and byte order allow it, and a copy otherwise.
+ * Returns `undefined` if the tag is not a typed array tag, or if the bytes don't hold a whole number of elements.
+ */
+export function taggedBytesToTypedArray(
+  tag: CborNumber,
+  bytes: Uint8Array,
+): TypedArray | undefined {
+  const format =
+    typeof tag === 'number' ? TYPED_ARRAY_FORMATS_BY_TAG.get(tag) : undefined;
+  if (!format) {
+    return undefined;
+  }
+
+  const { type, littleEndian, isHalf } = format;
+  const bytesPerElement = isHalf ? 2 : type.BYTES_PER_ELEMENT;
+  if (bytes.byteLength % bytesPerElement !== 0) {
+    return undefined;
+  }
+
+  const length = bytes.byteLength / bytesPerElement;
+
+  if (isHalf) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, length * 2);
+    return Float32Array.from({ length }, (_, i) =>
+      halfBitsToNumber(view.getUint16(i * 2, littleEndian)),
+    );
+  }
+
+  if (littleEndian !== IS_PLATFORM_LITTLE_ENDIAN && bytesPerElement > 1) {
+    return new type(
+      reverseElementBytes(bytes, bytesPerElement).buffer,
+      0,
+      length,
+    );
+  }
+
+  return bytes.byteOffset % bytesPerElement === 0
+    ? new type(bytes.buffer, bytes.byteOffset, length)
+    : new type(bytes.slice().buffer, 0, length);
+}
+
+/**
+ * Copies a byte array and reverses the byte order of each of its elements.
+ */
+function reverseElementBytes(
+  bytes: Uint8Array,
+  bytesPerElement: number,
+): Uint8Array {
+  const reversedBytes = bytes.slice();
+  for (let i = 0; i < reversedBytes.length; i += bytesPerElement) {
+    reversedBytes.subarray(i, i + bytesPerElement).reverse();
+  }
+  return reversedBytes;
+}
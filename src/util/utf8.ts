@@ -0,0 +1,62 @@
+interface WellFormedString {
+  isWellFormed(): boolean;
+}
+
+/**
+ * Checks if a string has lone surrogates, which have no UTF-8 encoding.
+ * Uses `String.prototype.isWellFormed` where it is available, and checks each code unit elsewhere.
+ */
+export const hasLoneSurrogates: (value: string) => boolean =
+  'isWellFormed' in String.prototype
+    ? value => !(value as unknown as WellFormedString).isWellFormed()
+    : findLoneSurrogate;
+
+function findLoneSurrogate(value: string): boolean {
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+
+    if (isHighSurrogate(code) && isLowSurrogate(value.charCodeAt(i + 1))) {
+      i++;
+    } else if (isHighSurrogate(code) || isLowSurrogate(code)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Computes the length in bytes of the UTF-8 encoding of a string, as produced by `TextEncoder`, without encoding it.
+ * Lone surrogates count as the 3 bytes of the replacement character U+FFFD.
+ */
+export function utf8ByteLength(value: string): number {
+  let byteLength = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+
+    if (code < 0x80) {
+      byteLength += 1;
+    } else if (code < 0x800) {
+      byteLength += 2;
+    } else if (
+      isHighSurrogate(code) &&
+      isLowSurrogate(value.charCodeAt(i + 1))
+    ) {
+      byteLength += 4;
+      i++;
+    } else {
+      byteLength += 3;
+    }
+  }
+
+  return byteLength;
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xdc00 && code <= 0xdfff;
+}